@@ -1,8 +1,16 @@
+import { useMemo } from "react";
+import { MockTransport } from "./api/MockTransport";
 import { ChatWidget } from "./components/ChatWidget";
 import "./index.css";
 
 export default function App() {
+  // open the dev server with ?mock to run without the .NET backend
+  const transport = useMemo(
+    () => (new URLSearchParams(location.search).has("mock") ? new MockTransport() : undefined),
+    []
+  );
+
   return (
-    <ChatWidget apiUrl="https://localhost:7201" configCode="CZ_ACCOUNTING" />
+    <ChatWidget apiUrl="https://localhost:7201" configCode="CZ_ACCOUNTING" transport={transport} />
   );
 }
@@ -1,47 +1,558 @@
+import type { UiStrings } from "../i18n/strings";
+import type { ChatTheme } from "../theme/theme";
+import type { ChatBlock, ChatSource } from "./blocks";
+import type { ChatContext } from "./context";
+import { toAgentEvent, type AgentConnection, type AgentEvent, type HandoffSession } from "./agent";
+import { backoffDelay, parseRetryAfter, sleep } from "./retry";
+import { detectStreamFormat, parseNdjson, parseSse, type ChatStreamEvent } from "./stream";
+import { collectStream, type ChatTransport } from "./transport";
+
+export type { ChatStreamEvent } from "./stream";
+export type { AgentConnection, AgentEvent, AgentStatus, HandoffSession } from "./agent";
+export type { BlockAction, ChatBlock, ChatSource, FormField } from "./blocks";
+export type { ChatContext, PageContext } from "./context";
+
 export interface ChatRequest {
   message: string;
   configCode: string;
   scopeId?: string;
+  /** Page the visitor is on, host-page metadata and an optional highlighted selection */
+  context?: ChatContext;
+  /** Signed visitor identity; filled in by the client from its `identity` option */
+  identity?: ChatIdentity;
+  /** Files uploaded beforehand with `uploadAttachment`, referenced by id */
+  attachments?: ChatAttachment[];
+}
+
+/** A file stored by `POST /api/ai/chat/attachments`, as returned by the server */
+export interface ChatAttachment {
+  id: string;
+  name: string;
+  /** MIME type */
+  type: string;
+  /** bytes */
+  size: number;
+  /** Where the file can be fetched back, e.g. for thumbnails */
+  url?: string;
+}
+
+/**
+ * Identity of a logged-in visitor. The host's backend signs it (e.g. HMAC over
+ * `userId` and `timestamp`) so the chat API can trust it without a session.
+ */
+export interface ChatIdentity {
+  userId: string;
+  email?: string;
+  name?: string;
+  /** epoch seconds the signature was issued at */
+  timestamp?: number;
+  signature: string;
+}
+
+/** A value or a (possibly async) function returning it, evaluated per request */
+export type Provider<T> = T | (() => T | Promise<T>);
+
+/** Returns a bearer token; `forceRefresh` is true when the previous token was rejected with 401 */
+export type AuthTokenProvider = (opts: { forceRefresh: boolean }) =>
+  | string
+  | null
+  | undefined
+  | Promise<string | null | undefined>;
+
+export async function resolveProvider<T>(provider: Provider<T>): Promise<T> {
+  return typeof provider === "function" ? (provider as () => T | Promise<T>)() : provider;
 }
 
 export interface ChatResponse {
   reply: string;
   scopeId: string;
+  /** Server id of this reply, used to attach feedback */
+  messageId?: string;
+  followups?: string[];
+  /** Cards, buttons and forms rendered under the reply */
+  blocks?: ChatBlock[];
+  /** Documents the reply cites with `[1]`-style markers, in marker order */
+  sources?: ChatSource[];
+  /** Set when the conversation should continue with a live agent */
+  handoff?: HandoffSession;
+}
+
+export type FeedbackRating = "up" | "down";
+
+/** Body of `POST /api/ai/chat/feedback`; sending again for the same message replaces the earlier rating */
+export interface FeedbackRequest {
+  configCode: string;
+  scopeId: string;
+  messageId: string;
+  rating: FeedbackRating;
+  comment?: string;
+}
+
+/** Body of `POST /api/ai/chat/form`; the response may carry a follow-up reply */
+export interface FormSubmission {
+  configCode: string;
+  scopeId: string;
+  /** Reply the form came with */
+  messageId?: string;
+  formId: string;
+  values: Record<string, string>;
+}
+
+/** Body of `POST /api/ai/chat/action`, sent when a block button with an `action` is clicked */
+export interface ActionRequest {
+  configCode: string;
+  scopeId: string;
+  messageId?: string;
+  action: string;
+  payload?: Record<string, unknown>;
+}
+
+/** Body of `POST /api/ai/chat/transcript/email`; the server renders the transcript stored for `scopeId` */
+export interface TranscriptEmailRequest {
+  configCode: string;
+  scopeId: string;
+  email: string;
+  /** UI locale, so the email matches the widget's language */
+  locale?: string;
+}
+
+/** Per-config settings served by `GET /api/ai/chat/config/{code}` */
+export interface ChatConfig {
+  initialMessage?: string;
   followups?: string[];
+  /** UI locale for this config, e.g. "cs" */
+  locale?: string;
+  /** UI string overrides for this config */
+  strings?: Partial<UiStrings>;
+  /** Branding for this config; host-page options take precedence */
+  theme?: ChatTheme;
+  /** Longest message the backend accepts, in characters */
+  maxMessageLength?: number;
 }
 
-export class ChatClient {
+export interface RequestOptions {
+  /** Aborts the request; the returned promise/stream rejects with an `AbortError` */
+  signal?: AbortSignal;
+}
+
+export interface UploadOptions extends RequestOptions {
+  /** Called as the request body is sent */
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+export interface ChatClientOptions {
+  /** Milliseconds to wait for the response headers before failing with `TimeoutError` (default 30000, 0 = none) */
+  timeoutMs?: number;
+  /** Extra attempts after a network error or a 5xx response (default 2) */
+  maxRetries?: number;
+  /** Base delay of the jittered exponential backoff between attempts (default 500) */
+  retryBaseDelayMs?: number;
+  /** Upper bound for a single backoff delay (default 8000) */
+  retryMaxDelayMs?: number;
+  /** Sent as `Authorization: Bearer <token>`; asked again with `forceRefresh` once after a 401 */
+  getAuthToken?: AuthTokenProvider;
+  /** Extra headers added to every request */
+  headers?: Provider<Record<string, string> | undefined>;
+  /** Signed identity forwarded in chat requests and, as `X-Velior-Identity`, on config lookups */
+  identity?: Provider<ChatIdentity | null | undefined>;
+}
+
+export class ChatClient implements ChatTransport {
   private apiUrl: string;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private retryMaxDelayMs: number;
+  private getAuthToken?: AuthTokenProvider;
+  private headers?: Provider<Record<string, string> | undefined>;
+  private identity?: Provider<ChatIdentity | null | undefined>;
 
-  constructor(apiUrl: string) {
+  constructor(apiUrl: string, options: ChatClientOptions = {}) {
     this.apiUrl = apiUrl;
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.maxRetries = options.maxRetries ?? 2;
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 500;
+    this.retryMaxDelayMs = options.retryMaxDelayMs ?? 8000;
+    this.getAuthToken = options.getAuthToken;
+    this.headers = options.headers;
+    this.identity = options.identity;
   }
 
-  async getConfig(configCode: string): Promise<{ initialMessage?: string; followups?: string[] }> {
+  async getConfig(configCode: string): Promise<ChatConfig> {
     const code = encodeURIComponent(configCode || "DEFAULT");
-    const res = await fetch(`${this.apiUrl}/api/ai/chat/config/${code}`);
-    if (!res.ok) {
+    let res: Response;
+    try {
+      const identity = await this.resolveIdentity();
+      res = await this.request(`/api/ai/chat/config/${code}`, {
+        headers: identity ? { "X-Velior-Identity": encodeIdentity(identity) } : {},
+      });
+    } catch (err) {
       // return empty defaults on error
-      return {};
+      if (err instanceof ApiError) return {};
+      throw err;
+    }
+    return res.json().catch(() => ({}));
+  }
+
+  async send(req: ChatRequest, options: RequestOptions = {}): Promise<ChatResponse> {
+    const res = await this.request(
+      "/api/ai/chat",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(await this.withIdentity(req)),
+      },
+      options
+    );
+    return res.json();
+  }
+
+  /**
+   * Streams a reply as text deltas followed by a final `done` frame.
+   * Servers that don't stream answer with plain JSON, which is replayed
+   * as a single delta so callers can use one code path for both.
+   */
+  async *stream(req: ChatRequest, options: RequestOptions = {}): AsyncGenerator<ChatStreamEvent> {
+    const res = await this.request(
+      "/api/ai/chat",
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "text/event-stream, application/x-ndjson, application/json",
+        },
+        body: JSON.stringify(await this.withIdentity(req)),
+      },
+      options
+    );
+
+    const format = detectStreamFormat(res.headers.get("content-type"));
+    if (!format || !res.body) {
+      // buffered fallback
+      const data: ChatResponse = await res.json();
+      yield { type: "delta", text: data.reply };
+      yield {
+        type: "done",
+        scopeId: data.scopeId,
+        messageId: data.messageId,
+        followups: data.followups,
+        blocks: data.blocks,
+        sources: data.sources,
+        handoff: data.handoff,
+      };
+      return;
+    }
+
+    const events = format === "sse" ? parseSse(res.body) : parseNdjson(res.body);
+    for await (const event of events) {
+      if (event.type === "error") {
+        throw new StreamError(event.message);
+      }
+      yield event;
     }
+  }
+
+  async sendFeedback(feedback: FeedbackRequest): Promise<void> {
+    await this.request("/api/ai/chat/feedback", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(feedback),
+    });
+  }
+
+  async submitForm(submission: FormSubmission): Promise<Partial<ChatResponse>> {
+    const res = await this.request("/api/ai/chat/form", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(submission),
+    });
     return res.json().catch(() => ({}));
   }
 
-  async send(req: ChatRequest): Promise<ChatResponse> {
-    const res = await fetch(`${this.apiUrl}/api/ai/chat`, {
+  async triggerAction(req: ActionRequest): Promise<Partial<ChatResponse>> {
+    const res = await this.request("/api/ai/chat/action", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify(req),
     });
+    return res.json().catch(() => ({}));
+  }
 
-    if (!res.ok) {
-      const bodyText = await res.text().catch(() => "");
-      const message = bodyText || res.statusText || "Chat request failed";
-      throw new ApiError(message, res.status, bodyText);
+  async emailTranscript(req: TranscriptEmailRequest): Promise<void> {
+    await this.request("/api/ai/chat/transcript/email", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(req),
+    });
+  }
+
+  /**
+   * Listens to a live-agent session: over the server-provided WebSocket when
+   * there is one, otherwise by long polling. Visitor messages and `end()` go
+   * over HTTP either way. A dropped socket falls back to polling.
+   */
+  connectAgent(session: HandoffSession, onEvent: (event: AgentEvent) => void): AgentConnection {
+    const base = `/api/ai/chat/agent/${encodeURIComponent(session.sessionId)}`;
+    const controller = new AbortController();
+    let socket: WebSocket | null = null;
+
+    const close = () => {
+      controller.abort();
+      socket?.close();
+    };
+    const emit = (event: AgentEvent) => {
+      onEvent(event);
+      if (event.type === "status" && event.status === "ended") close();
+    };
+
+    const poll = async () => {
+      let cursor = "";
+      for (let attempt = 0; !controller.signal.aborted; ) {
+        try {
+          const query = cursor ? `?cursor=${encodeURIComponent(cursor)}` : "";
+          // the server holds the request open until something happens, so no client timeout
+          const res = await this.request(`${base}/events${query}`, {}, { signal: controller.signal, timeoutMs: 0 });
+          const data: { events?: unknown[]; cursor?: string } = await res.json().catch(() => ({}));
+          cursor = data.cursor ?? cursor;
+          for (const raw of data.events ?? []) {
+            const event = toAgentEvent(raw);
+            if (event) emit(event);
+          }
+          attempt = 0;
+        } catch (err) {
+          if (isAbortError(err)) return;
+          if (err instanceof ApiError && (err.status === 404 || err.status === 410)) {
+            emit({ type: "status", status: "ended" });
+            return;
+          }
+          try {
+            await sleep(backoffDelay(attempt++, this.retryBaseDelayMs, this.retryMaxDelayMs), controller.signal);
+          } catch {
+            return;
+          }
+        }
+      }
+    };
+
+    if (session.socketUrl && typeof WebSocket !== "undefined") {
+      socket = new WebSocket(session.socketUrl);
+      socket.onmessage = (message) => {
+        try {
+          const event = toAgentEvent(JSON.parse(String(message.data)));
+          if (event) emit(event);
+        } catch {
+          // ignore malformed frames
+        }
+      };
+      socket.onclose = () => {
+        socket = null;
+        if (!controller.signal.aborted) void poll();
+      };
+    } else {
+      void poll();
     }
 
-    return res.json();
+    return {
+      send: async (text) => {
+        await this.request(`${base}/messages`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ text }),
+        });
+      },
+      end: async () => {
+        close();
+        await this.request(`${base}/end`, { method: "POST" });
+      },
+      close,
+    };
+  }
+
+  /**
+   * Uploads one file as `multipart/form-data` (`file` and `configCode` fields).
+   * Uses XHR for upload progress; not retried and not subject to `timeoutMs`,
+   * since large files on slow links legitimately take a while.
+   */
+  async uploadAttachment(file: File, configCode: string, options: UploadOptions = {}): Promise<ChatAttachment> {
+    const form = new FormData();
+    form.append("configCode", configCode);
+    form.append("file", file, file.name);
+
+    for (let refreshedToken = false; ; refreshedToken = true) {
+      const headers = await this.buildHeaders(undefined, refreshedToken);
+      const res = await xhrUpload(`${this.apiUrl}/api/ai/chat/attachments`, form, headers, options);
+      if (res.ok) return res.json();
+      if (res.status === 401 && this.getAuthToken && !refreshedToken) continue;
+      throw await errorFromResponse(res);
+    }
+  }
+
+  /** Callback flavour of `stream()`: reports deltas and resolves with the assembled response. */
+  async sendStreaming(
+    req: ChatRequest,
+    onDelta: (text: string) => void,
+    options: RequestOptions = {}
+  ): Promise<ChatResponse> {
+    return collectStream(this.stream(req, options), req, onDelta);
+  }
+
+  private async resolveIdentity(): Promise<ChatIdentity | null> {
+    return this.identity ? ((await resolveProvider(this.identity)) ?? null) : null;
+  }
+
+  private async withIdentity(req: ChatRequest): Promise<ChatRequest> {
+    if (req.identity) return req;
+    const identity = await this.resolveIdentity();
+    return identity ? { ...req, identity } : req;
+  }
+
+  private async buildHeaders(base: HeadersInit | undefined, forceRefresh: boolean): Promise<Headers> {
+    const headers = new Headers(base);
+    const extra = this.headers ? await resolveProvider(this.headers) : undefined;
+    for (const [name, value] of Object.entries(extra ?? {})) headers.set(name, value);
+    const token = this.getAuthToken ? await this.getAuthToken({ forceRefresh }) : null;
+    if (token) headers.set("Authorization", `Bearer ${token}`);
+    return headers;
   }
+
+  /**
+   * Fetches with a timeout, retrying network errors and 5xx responses with
+   * jittered exponential backoff. Non-OK responses become `ApiError` subclasses.
+   * Once a response is returned, streaming its body is no longer retried.
+   * A 401 asks the token provider for a fresh token and retries once.
+   */
+  private async request(
+    path: string,
+    init: RequestInit,
+    options: RequestOptions & { timeoutMs?: number } = {}
+  ): Promise<Response> {
+    const { signal, timeoutMs = this.timeoutMs } = options;
+    let refreshedToken = false;
+    for (let attempt = 0; ; attempt++) {
+      const headers = await this.buildHeaders(init.headers, refreshedToken);
+      let res: Response;
+      try {
+        res = await this.fetchWithTimeout(`${this.apiUrl}${path}`, { ...init, headers }, timeoutMs, signal);
+      } catch (err) {
+        if (!(err instanceof NetworkError) || attempt >= this.maxRetries) throw err;
+        await sleep(backoffDelay(attempt, this.retryBaseDelayMs, this.retryMaxDelayMs), signal);
+        continue;
+      }
+
+      if (res.ok) return res;
+
+      if (res.status === 401 && this.getAuthToken && !refreshedToken) {
+        refreshedToken = true;
+        attempt--; // a token refresh doesn't count as a retry
+        continue;
+      }
+
+      const error = await errorFromResponse(res);
+      if (!(error instanceof ServerError) || attempt >= this.maxRetries) throw error;
+      await sleep(backoffDelay(attempt, this.retryBaseDelayMs, this.retryMaxDelayMs), signal);
+    }
+  }
+
+  private async fetchWithTimeout(
+    url: string,
+    init: RequestInit,
+    timeoutMs: number,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    // own controller so the timeout can abort without touching the caller's signal;
+    // the caller's signal keeps aborting the body stream after headers arrive
+    const controller = new AbortController();
+    if (signal?.aborted) controller.abort(signal.reason);
+    signal?.addEventListener("abort", () => controller.abort(signal.reason), { once: true });
+
+    let timedOut = false;
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeoutMs)
+        : undefined;
+
+    try {
+      return await fetch(url, { ...init, signal: controller.signal });
+    } catch (err) {
+      if (timedOut) throw new TimeoutError(timeoutMs);
+      if (isAbortError(err)) throw err;
+      throw new NetworkError(err instanceof Error ? err.message : String(err));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// base64 of the UTF-8 JSON, safe for a header value
+function encodeIdentity(identity: ChatIdentity): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(identity));
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+}
+
+// fetch can't report upload progress, so uploads go through XHR and are wrapped back into a Response
+function xhrUpload(url: string, body: FormData, headers: Headers, options: UploadOptions): Promise<Response> {
+  const { signal, onProgress } = options;
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Upload aborted", "AbortError"));
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", url);
+    headers.forEach((value, name) => xhr.setRequestHeader(name, value));
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const settle = () => signal?.removeEventListener("abort", onAbort);
+
+    if (onProgress) xhr.upload.onprogress = (e) => onProgress(e.loaded, e.lengthComputable ? e.total : 0);
+    xhr.onload = () => {
+      settle();
+      const responseHeaders = new Headers();
+      for (const line of xhr.getAllResponseHeaders().trim().split(/[\r\n]+/)) {
+        const idx = line.indexOf(":");
+        if (idx > 0) responseHeaders.append(line.slice(0, idx).trim(), line.slice(idx + 1).trim());
+      }
+      // null-body statuses can't be constructed with a body, not even an empty one
+      const nullBody = xhr.status === 204 || xhr.status === 205 || xhr.status === 304;
+      resolve(
+        new Response(nullBody ? null : xhr.responseText, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: responseHeaders,
+        })
+      );
+    };
+    xhr.onerror = () => {
+      settle();
+      reject(new NetworkError("Upload failed"));
+    };
+    xhr.onabort = () => {
+      settle();
+      reject(new DOMException("Upload aborted", "AbortError"));
+    };
+    xhr.send(body);
+  });
+}
+
+async function errorFromResponse(res: Response): Promise<ApiError> {
+  const bodyText = await res.text().catch(() => "");
+  const message = bodyText || res.statusText || "Chat request failed";
+  if (res.status === 429) {
+    // the server must list Retry-After in Access-Control-Expose-Headers for cross-origin reads
+    return new RateLimitError(message, bodyText, parseRetryAfter(res.headers.get("Retry-After")));
+  }
+  if (res.status >= 500) return new ServerError(message, res.status, bodyText);
+  return new ApiError(message, res.status, bodyText);
+}
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
 }
 
 export class ApiError extends Error {
@@ -54,3 +565,47 @@ export class ApiError extends Error {
     this.body = body;
   }
 }
+
+/** 429 Too Many Requests; `retryAfterMs` comes from the `Retry-After` header when present */
+export class RateLimitError extends ApiError {
+  retryAfterMs?: number;
+  constructor(message: string, body: string, retryAfterMs?: number) {
+    super(message, 429, body);
+    this.name = "RateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** 5xx response, after retries were exhausted */
+export class ServerError extends ApiError {
+  constructor(message: string, status: number, body: string) {
+    super(message, status, body);
+    this.name = "ServerError";
+  }
+}
+
+/** No response within `timeoutMs`; `status` is 0 */
+export class TimeoutError extends ApiError {
+  timeoutMs: number;
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs} ms`, 0, "");
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** The server sent an error frame in the middle of a streamed reply; `body` is the frame's message */
+export class StreamError extends ApiError {
+  constructor(message: string) {
+    super(message || "Chat stream failed", 0, message);
+    this.name = "StreamError";
+  }
+}
+
+/** The request never reached the server (offline, DNS, CORS); `status` is 0 */
+export class NetworkError extends ApiError {
+  constructor(message: string) {
+    super(message, 0, "");
+    this.name = "NetworkError";
+  }
+}
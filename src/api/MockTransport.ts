@@ -0,0 +1,329 @@
+import {
+  NetworkError,
+  type ActionRequest,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  type ChatAttachment,
+  type ChatConfig,
+  type ChatRequest,
+  type ChatResponse,
+  type FeedbackRequest,
+  type FormSubmission,
+  type RequestOptions,
+  type TranscriptEmailRequest,
+  type UploadOptions,
+} from "./ChatClient";
+import type { AgentConnection, AgentEvent, HandoffSession } from "./agent";
+import type { ChatBlock, ChatSource } from "./blocks";
+import { sleep } from "./retry";
+import type { ChatStreamEvent } from "./stream";
+import type { ChatTransport } from "./transport";
+
+export type MockErrorKind = "rate-limit" | "server" | "timeout" | "network";
+
+export interface MockReply {
+  /** Answer only messages matching this; replies without `match` are used in order for everything else */
+  match?: string | RegExp;
+  reply: string;
+  followups?: string[];
+  blocks?: ChatBlock[];
+  sources?: ChatSource[];
+  /** Fail instead of answering */
+  error?: MockErrorKind;
+  /** Hand the conversation to the mock live agent after this reply */
+  handoff?: boolean;
+}
+
+export interface MockTransportOptions {
+  config?: ChatConfig;
+  replies?: MockReply[];
+  /** Delay before the first token / the buffered reply (default 600) */
+  latencyMs?: number;
+  /** Delay between streamed words (default 30) */
+  tokenDelayMs?: number;
+  /** Retry-After used for injected rate-limit errors (default 10000) */
+  retryAfterMs?: number;
+  /** Name of the simulated live agent (default "Eva") */
+  agentName?: string;
+}
+
+const DEFAULT_CONFIG: ChatConfig = {
+  initialMessage:
+    "Hi! This is a **mock** assistant running without a backend. Type `/429`, `/500`, `/timeout` or `/offline` to try error states, or ask for a human agent.",
+  followups: ["What can you do?", "Show me some Markdown"],
+};
+
+const DEFAULT_REPLIES: MockReply[] = [
+  {
+    match: /markdown/i,
+    reply:
+      "## Markdown\n\nHere is a list:\n\n- **bold** and *italic*\n- `inline code`\n- [a link](https://example.com)\n\n```ts\nconst answer = 42;\n```\n\n| Plan | Price |\n|---|---|\n| Basic | 10 € |\n| Pro | 25 € |",
+    followups: ["What can you do?"],
+  },
+  {
+    match: /\b(agent|human|person)\b/i,
+    reply: "Sure, let me connect you with a colleague.",
+    handoff: true,
+  },
+  {
+    match: /\b(product|plans?|callback)\b/i,
+    reply: "Here are our plans. I can also arrange a callback.",
+    blocks: [
+      {
+        type: "card",
+        title: "Pro plan",
+        text: "Unlimited invoices, bank sync and priority support.",
+        url: "https://example.com/pro",
+        buttons: [
+          { label: "See pricing", url: "https://example.com/pricing" },
+          { label: "Start trial", action: "start-trial", payload: { plan: "pro" } },
+        ],
+      },
+      {
+        type: "form",
+        id: "callback",
+        title: "Request a callback",
+        fields: [
+          { name: "name", label: "Name", type: "text", required: true },
+          { name: "phone", label: "Phone", type: "tel", required: true },
+        ],
+        submitLabel: "Call me",
+      },
+    ],
+  },
+  {
+    match: /\b(vat|tax|sources?)\b/i,
+    reply:
+      "The standard VAT rate in Czechia is 21 % [1]. Reduced rates of 12 % apply to food and some services [1][2].",
+    sources: [
+      {
+        title: "VAT Act (235/2004 Coll.)",
+        url: "https://example.com/vat-act",
+        snippet: "The standard rate of tax is 21 %, the first reduced rate is 12 %.",
+      },
+      {
+        title: "Reduced VAT rates explained",
+        url: "https://example.com/reduced-rates",
+        snippet: "Food, water supply and accommodation services are taxed at the reduced rate.",
+      },
+    ],
+  },
+  {
+    match: /what can you do/i,
+    reply: "I answer with scripted replies, stream them word by word and can simulate rate limits, server errors and timeouts.",
+    followups: ["Show me some Markdown"],
+  },
+];
+
+// slash commands that inject errors from the composer, handy in demos
+const ERROR_COMMANDS: Record<string, MockErrorKind> = {
+  "/429": "rate-limit",
+  "/500": "server",
+  "/timeout": "timeout",
+  "/offline": "network",
+};
+
+/** In-memory `ChatTransport` with scripted replies, artificial latency and injectable errors. */
+export class MockTransport implements ChatTransport {
+  /** Feedback received so far, newest last */
+  readonly feedback: FeedbackRequest[] = [];
+  /** Forms submitted so far, newest last */
+  readonly formSubmissions: FormSubmission[] = [];
+  /** Block button actions triggered so far, newest last */
+  readonly actions: ActionRequest[] = [];
+  /** Transcript emails requested so far, newest last */
+  readonly transcriptEmails: TranscriptEmailRequest[] = [];
+  private config: ChatConfig;
+  private replies: MockReply[];
+  private latencyMs: number;
+  private tokenDelayMs: number;
+  private retryAfterMs: number;
+  private agentName: string;
+  private handoffCounter = 0;
+  private queuedErrors: MockErrorKind[] = [];
+  private fallbackIndex = 0;
+  private scopeCounter = 0;
+  private messageCounter = 0;
+  private attachmentCounter = 0;
+
+  constructor(options: MockTransportOptions = {}) {
+    this.config = options.config ?? DEFAULT_CONFIG;
+    this.replies = options.replies ?? DEFAULT_REPLIES;
+    this.latencyMs = options.latencyMs ?? 600;
+    this.tokenDelayMs = options.tokenDelayMs ?? 30;
+    this.retryAfterMs = options.retryAfterMs ?? 10000;
+    this.agentName = options.agentName ?? "Eva";
+  }
+
+  /** Makes the next request fail with the given error */
+  injectError(kind: MockErrorKind) {
+    this.queuedErrors.push(kind);
+  }
+
+  async getConfig(): Promise<ChatConfig> {
+    await sleep(this.latencyMs / 2);
+    return this.config;
+  }
+
+  async send(req: ChatRequest, options: RequestOptions = {}): Promise<ChatResponse> {
+    const reply = this.pickReply(req);
+    await sleep(this.latencyMs, options.signal);
+    this.throwIfFailing(reply);
+    return {
+      reply: reply.reply,
+      scopeId: this.scopeFor(req),
+      messageId: this.nextMessageId(),
+      followups: reply.followups,
+      blocks: reply.blocks,
+      sources: reply.sources,
+      handoff: this.handoffFor(reply),
+    };
+  }
+
+  async *stream(req: ChatRequest, options: RequestOptions = {}): AsyncGenerator<ChatStreamEvent> {
+    const reply = this.pickReply(req);
+    await sleep(this.latencyMs, options.signal);
+    this.throwIfFailing(reply);
+
+    // keep whitespace attached so the joined deltas equal the reply exactly
+    for (const token of reply.reply.match(/\S+\s*|\s+/g) ?? []) {
+      yield { type: "delta", text: token };
+      await sleep(this.tokenDelayMs, options.signal);
+    }
+    yield {
+      type: "done",
+      scopeId: this.scopeFor(req),
+      messageId: this.nextMessageId(),
+      followups: reply.followups,
+      blocks: reply.blocks,
+      sources: reply.sources,
+      handoff: this.handoffFor(reply),
+    };
+  }
+
+  async sendFeedback(feedback: FeedbackRequest): Promise<void> {
+    await sleep(this.latencyMs / 2);
+    this.feedback.push(feedback);
+  }
+
+  async submitForm(submission: FormSubmission): Promise<Partial<ChatResponse>> {
+    await sleep(this.latencyMs);
+    this.formSubmissions.push(submission);
+    return { reply: "Thanks, we've got your details and will be in touch. (mock)" };
+  }
+
+  async triggerAction(req: ActionRequest): Promise<Partial<ChatResponse>> {
+    await sleep(this.latencyMs / 2);
+    this.actions.push(req);
+    return {};
+  }
+
+  /** Queues briefly, then an agent joins and answers every message after a short typing pause */
+  connectAgent(_session: HandoffSession, onEvent: (event: AgentEvent) => void): AgentConnection {
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    let closed = false;
+    const later = (ms: number, fn: () => void) => {
+      const id = setTimeout(() => {
+        timers.delete(id);
+        if (!closed) fn();
+      }, ms);
+      timers.add(id);
+    };
+    const close = () => {
+      closed = true;
+      timers.forEach(clearTimeout);
+      timers.clear();
+    };
+    const agentName = this.agentName;
+
+    later(0, () => onEvent({ type: "status", status: "queued" }));
+    later(this.latencyMs * 3, () => {
+      onEvent({ type: "status", status: "connected", agentName });
+      onEvent({ type: "message", text: `Hi, I'm ${agentName}. How can I help?`, agentName, sentAt: Date.now() });
+    });
+
+    return {
+      send: async () => {
+        await sleep(this.latencyMs / 2);
+        later(300, () => onEvent({ type: "typing", typing: true }));
+        later(300 + this.latencyMs * 2, () => {
+          onEvent({ type: "typing", typing: false });
+          onEvent({ type: "message", text: "Thanks, let me check that for you. (mock agent)", agentName, sentAt: Date.now() });
+        });
+      },
+      end: async () => {
+        close();
+        await sleep(this.latencyMs / 2);
+      },
+      close,
+    };
+  }
+
+  async emailTranscript(req: TranscriptEmailRequest): Promise<void> {
+    await sleep(this.latencyMs);
+    this.transcriptEmails.push(req);
+  }
+
+  /** Reports progress in steps over `latencyMs`; images get an object URL so thumbnails render */
+  async uploadAttachment(file: File, _configCode: string, options: UploadOptions = {}): Promise<ChatAttachment> {
+    const steps = 5;
+    for (let i = 1; i <= steps; i++) {
+      await sleep(this.latencyMs / steps, options.signal);
+      options.onProgress?.((file.size * i) / steps, file.size);
+    }
+    return {
+      id: `mock-file-${++this.attachmentCounter}`,
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      url: file.type.startsWith("image/") ? URL.createObjectURL(file) : undefined,
+    };
+  }
+
+  private pickReply(req: ChatRequest): MockReply {
+    const { message } = req;
+    const command = ERROR_COMMANDS[message.trim().toLowerCase()];
+    if (command) return { reply: "", error: command };
+
+    const queued = this.queuedErrors.shift();
+    if (queued) return { reply: "", error: queued };
+
+    const matched = this.replies.find((r) =>
+      r.match instanceof RegExp ? r.match.test(message) : r.match !== undefined && message.includes(r.match)
+    );
+    if (matched) return matched;
+
+    const unmatched = this.replies.filter((r) => r.match === undefined);
+    if (unmatched.length > 0) return unmatched[this.fallbackIndex++ % unmatched.length];
+
+    const files = req.attachments?.map((a) => `\`${a.name}\``).join(", ");
+    if (files) return { reply: `You sent ${files}${message ? ` with *${message}*` : ""}. This is a mock reply.` };
+    return { reply: `You said: *${message}*. This is a mock reply.` };
+  }
+
+  private throwIfFailing(reply: MockReply) {
+    switch (reply.error) {
+      case "rate-limit":
+        throw new RateLimitError("Too many requests (mock).", "", this.retryAfterMs);
+      case "server":
+        throw new ServerError("Internal server error (mock).", 500, "");
+      case "timeout":
+        throw new TimeoutError(30000);
+      case "network":
+        throw new NetworkError("Network unavailable (mock).");
+    }
+  }
+
+  private handoffFor(reply: MockReply): HandoffSession | undefined {
+    return reply.handoff ? { sessionId: `mock-agent-${++this.handoffCounter}` } : undefined;
+  }
+
+  private nextMessageId() {
+    return `mock-msg-${++this.messageCounter}`;
+  }
+
+  private scopeFor(req: ChatRequest) {
+    return req.scopeId || `mock-${++this.scopeCounter}`;
+  }
+}
@@ -0,0 +1,59 @@
+// Live-agent handoff. After a reply carries `handoff`, the conversation is
+// served by a human: agent events arrive over a WebSocket when the server
+// hands out a `socketUrl`, otherwise by long polling
+// `GET /api/ai/chat/agent/{sessionId}/events?cursor=...`. Both carry the same
+// JSON frames:
+//   { "type": "status", "status": "queued" | "connected" | "ended", "agentName": "..." }
+//   { "type": "message", "id": "...", "text": "...", "agentName": "...", "sentAt": 1700000000000 }
+//   { "type": "typing", "typing": true }
+
+/** Returned with a reply when the conversation should move to a live agent */
+export interface HandoffSession {
+  sessionId: string;
+  /** Shown to the visitor while waiting, e.g. "Billing question" */
+  reason?: string;
+  /** WebSocket endpoint with its own short-lived credentials; long polling is used without it */
+  socketUrl?: string;
+}
+
+export type AgentStatus = "queued" | "connected" | "ended";
+
+export type AgentEvent =
+  | { type: "status"; status: AgentStatus; agentName?: string }
+  | { type: "message"; id?: string; text: string; agentName?: string; sentAt?: number }
+  | { type: "typing"; typing: boolean };
+
+/** Live connection to an agent session; `close()` only stops listening, `end()` hands back to the bot */
+export interface AgentConnection {
+  send(text: string): Promise<void>;
+  end(): Promise<void>;
+  close(): void;
+}
+
+const STATUSES: AgentStatus[] = ["queued", "connected", "ended"];
+
+export function toAgentEvent(raw: unknown): AgentEvent | null {
+  if (!raw || typeof raw !== "object") return null;
+  const frame = raw as Record<string, unknown>;
+  const agentName = typeof frame.agentName === "string" ? frame.agentName : undefined;
+  switch (frame.type) {
+    case "status":
+      return STATUSES.includes(frame.status as AgentStatus)
+        ? { type: "status", status: frame.status as AgentStatus, agentName }
+        : null;
+    case "message":
+      return typeof frame.text === "string"
+        ? {
+            type: "message",
+            id: typeof frame.id === "string" ? frame.id : undefined,
+            text: frame.text,
+            agentName,
+            sentAt: typeof frame.sentAt === "number" ? frame.sentAt : undefined,
+          }
+        : null;
+    case "typing":
+      return { type: "typing", typing: frame.typing === true };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,152 @@
+// Structured content a reply can carry next to its Markdown text: blocks and
+// the sources cited by `[n]` markers. Both come from the config's backend
+// flows, so they are validated before rendering: malformed entries are
+// dropped, unknown block types fall back to their `fallback` text (if any),
+// and only http(s) URLs are kept for links and images.
+
+/** A button: opens `url`, or fires `action` on the host page and the backend */
+export interface BlockAction {
+  label: string;
+  url?: string;
+  action?: string;
+  payload?: Record<string, unknown>;
+}
+
+export interface TextBlock {
+  type: "text";
+  /** Markdown */
+  text: string;
+}
+
+export interface CardBlock {
+  type: "card";
+  title: string;
+  text?: string;
+  imageUrl?: string;
+  /** Makes the title a link */
+  url?: string;
+  buttons?: BlockAction[];
+}
+
+export interface ButtonsBlock {
+  type: "buttons";
+  buttons: BlockAction[];
+}
+
+export interface FormField {
+  name: string;
+  label: string;
+  type: "text" | "email" | "tel" | "number" | "textarea" | "select";
+  required?: boolean;
+  placeholder?: string;
+  /** Choices for "select" */
+  options?: { value: string; label: string }[];
+}
+
+export interface FormBlock {
+  type: "form";
+  /** Identifies the form when it is submitted */
+  id: string;
+  title?: string;
+  fields: FormField[];
+  submitLabel?: string;
+}
+
+export type ChatBlock = TextBlock | CardBlock | ButtonsBlock | FormBlock;
+
+/** A document the reply drew on; `[1]` in the reply refers to the first source */
+export interface ChatSource {
+  title: string;
+  url?: string;
+  /** Excerpt shown when hovering the marker */
+  snippet?: string;
+}
+
+const FIELD_TYPES: FormField["type"][] = ["text", "email", "tel", "number", "textarea", "select"];
+
+type Raw = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Raw => !!v && typeof v === "object" && !Array.isArray(v);
+const str = (v: unknown) => (typeof v === "string" && v ? v : undefined);
+
+function safeUrl(v: unknown): string | undefined {
+  const url = str(v);
+  if (!url) return undefined;
+  try {
+    return /^https?:$/.test(new URL(url, location.href).protocol) ? url : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function toAction(raw: unknown): BlockAction | null {
+  if (!isObject(raw) || !str(raw.label)) return null;
+  const url = safeUrl(raw.url);
+  const action = str(raw.action);
+  if (!url && !action) return null;
+  return { label: raw.label as string, url, action, payload: isObject(raw.payload) ? raw.payload : undefined };
+}
+
+function toActions(raw: unknown): BlockAction[] {
+  return Array.isArray(raw) ? raw.map(toAction).filter((a): a is BlockAction => a !== null) : [];
+}
+
+function toField(raw: unknown): FormField | null {
+  if (!isObject(raw) || !str(raw.name)) return null;
+  const type = FIELD_TYPES.includes(raw.type as FormField["type"]) ? (raw.type as FormField["type"]) : "text";
+  const options = Array.isArray(raw.options)
+    ? raw.options.filter(isObject).map((o) => ({ value: String(o.value ?? ""), label: String(o.label ?? o.value ?? "") }))
+    : undefined;
+  return {
+    name: raw.name as string,
+    label: str(raw.label) ?? (raw.name as string),
+    type,
+    required: raw.required === true,
+    placeholder: str(raw.placeholder),
+    options,
+  };
+}
+
+function toBlock(raw: unknown): ChatBlock | null {
+  if (!isObject(raw)) return null;
+  switch (raw.type) {
+    case "text":
+      return str(raw.text) ? { type: "text", text: raw.text as string } : null;
+    case "card":
+      if (!str(raw.title)) return null;
+      return {
+        type: "card",
+        title: raw.title as string,
+        text: str(raw.text),
+        imageUrl: safeUrl(raw.imageUrl),
+        url: safeUrl(raw.url),
+        buttons: toActions(raw.buttons),
+      };
+    case "buttons": {
+      const buttons = toActions(raw.buttons);
+      return buttons.length > 0 ? { type: "buttons", buttons } : null;
+    }
+    case "form": {
+      const fields = Array.isArray(raw.fields) ? raw.fields.map(toField).filter((f): f is FormField => f !== null) : [];
+      if (!str(raw.id) || fields.length === 0) return null;
+      return { type: "form", id: raw.id as string, title: str(raw.title), fields, submitLabel: str(raw.submitLabel) };
+    }
+    default:
+      // newer block types this widget version doesn't know
+      return str(raw.fallback) ? { type: "text", text: raw.fallback as string } : null;
+  }
+}
+
+export function parseBlocks(raw: unknown): ChatBlock[] {
+  return Array.isArray(raw) ? raw.map(toBlock).filter((b): b is ChatBlock => b !== null) : [];
+}
+
+// entries are kept in place (as untitled sources) so `[n]` still points at the right one
+export function parseSources(raw: unknown): ChatSource[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map((s, i) => {
+    const source = isObject(s) ? s : {};
+    const url = safeUrl(source.url);
+    return { title: str(source.title) ?? url ?? `#${i + 1}`, url, snippet: str(source.snippet) };
+  });
+}
@@ -0,0 +1,38 @@
+// What the widget tells the backend about where the visitor is, sent as
+// `ChatRequest.context` so answers can refer to the product, cart or invoice
+// on screen. Page details are read fresh for every request, so single-page
+// apps report the route the visitor is on when they ask.
+
+/** Read from the current document unless the `pageContext` option is off */
+export interface PageContext {
+  url: string;
+  title: string;
+  /** `<html lang>`, falling back to the browser language */
+  language: string;
+  referrer?: string;
+}
+
+export interface ChatContext {
+  page?: PageContext;
+  /** Host-page JSON set through `init({ context })` or `setContext` */
+  metadata?: Record<string, unknown>;
+  /** Text the visitor highlighted on the page and asked about */
+  selection?: string;
+}
+
+/** Longer selections are cut to this many characters before sending */
+export const MAX_SELECTION_LENGTH = 2000;
+
+export function getPageContext(): PageContext {
+  return {
+    url: location.href,
+    title: document.title,
+    language: document.documentElement.lang || navigator.language,
+    referrer: document.referrer || undefined,
+  };
+}
+
+export function trimSelection(text: string) {
+  const clean = text.replace(/\s+/g, " ").trim();
+  return clean.length > MAX_SELECTION_LENGTH ? `${clean.slice(0, MAX_SELECTION_LENGTH - 1)}…` : clean;
+}
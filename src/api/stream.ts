@@ -0,0 +1,135 @@
+// Parsers for streamed chat replies. The server may answer `POST /api/ai/chat`
+// either as Server-Sent Events (`text/event-stream`) or as newline-delimited
+// JSON (`application/x-ndjson`). Both carry the same JSON frames:
+//   { "type": "delta", "text": "..." }
+//   { "type": "done", "scopeId": "...", "messageId": "...", "followups": ["..."], "blocks": [...], "sources": [...], "handoff": { "sessionId": "..." } }
+//   { "type": "error", "message": "..." }
+
+import type { HandoffSession } from "./agent";
+import type { ChatBlock, ChatSource } from "./blocks";
+
+export type ChatStreamEvent =
+  | { type: "delta"; text: string }
+  | {
+      type: "done";
+      scopeId: string;
+      messageId?: string;
+      followups?: string[];
+      /** unvalidated; run through `parseBlocks` before rendering */
+      blocks?: ChatBlock[];
+      /** unvalidated; run through `parseSources` before rendering */
+      sources?: ChatSource[];
+      handoff?: HandoffSession;
+    }
+  | { type: "error"; message: string };
+
+export type StreamFormat = "sse" | "ndjson";
+
+export function detectStreamFormat(contentType: string | null): StreamFormat | null {
+  const ct = (contentType || "").toLowerCase();
+  if (ct.includes("text/event-stream")) return "sse";
+  if (ct.includes("application/x-ndjson") || ct.includes("application/jsonl")) return "ndjson";
+  return null;
+}
+
+function toStreamEvent(raw: unknown): ChatStreamEvent | null {
+  if (!raw || typeof raw !== "object") return null;
+  const frame = raw as Record<string, unknown>;
+  switch (frame.type) {
+    case "delta":
+      return typeof frame.text === "string" ? { type: "delta", text: frame.text } : null;
+    case "done":
+      return {
+        type: "done",
+        scopeId: typeof frame.scopeId === "string" ? frame.scopeId : "",
+        messageId: typeof frame.messageId === "string" ? frame.messageId : undefined,
+        followups: Array.isArray(frame.followups) ? frame.followups.filter((f) => typeof f === "string") : undefined,
+        blocks: Array.isArray(frame.blocks) ? (frame.blocks as ChatBlock[]) : undefined,
+        sources: Array.isArray(frame.sources) ? (frame.sources as ChatSource[]) : undefined,
+        handoff: toHandoff(frame.handoff),
+      };
+    case "error":
+      return { type: "error", message: typeof frame.message === "string" ? frame.message : "" };
+    default:
+      return null;
+  }
+}
+
+function toHandoff(raw: unknown): HandoffSession | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const h = raw as Record<string, unknown>;
+  if (typeof h.sessionId !== "string" || !h.sessionId) return undefined;
+  return {
+    sessionId: h.sessionId,
+    reason: typeof h.reason === "string" ? h.reason : undefined,
+    socketUrl: typeof h.socketUrl === "string" ? h.socketUrl : undefined,
+  };
+}
+
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let idx: number;
+      while ((idx = buffer.indexOf("\n")) >= 0) {
+        yield buffer.slice(0, idx).replace(/\r$/, "");
+        buffer = buffer.slice(idx + 1);
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer.replace(/\r$/, "");
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export async function* parseNdjson(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  for await (const line of readLines(body)) {
+    if (!line.trim()) continue;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    const event = toStreamEvent(parsed);
+    if (event) yield event;
+  }
+}
+
+export async function* parseSse(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  let data: string[] = [];
+
+  const flush = (): ChatStreamEvent | null => {
+    if (data.length === 0) return null;
+    const payload = data.join("\n");
+    data = [];
+    if (payload === "[DONE]") return null;
+    try {
+      return toStreamEvent(JSON.parse(payload));
+    } catch {
+      // plain-text data lines are treated as raw deltas
+      return { type: "delta", text: payload };
+    }
+  };
+
+  for await (const line of readLines(body)) {
+    if (line === "") {
+      const event = flush();
+      if (event) yield event;
+      continue;
+    }
+    if (line.startsWith(":")) continue; // comment / keep-alive
+    if (line.startsWith("data:")) {
+      data.push(line.slice(5).replace(/^ /, ""));
+    }
+  }
+
+  const last = flush();
+  if (last) yield last;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { NetworkError, StreamError } from "./ChatClient";
+import type { ChatStreamEvent } from "./stream";
+import { collectStream } from "./transport";
+
+const req = { message: "Hi", configCode: "TEST" };
+
+async function* frames(...events: ChatStreamEvent[]) {
+  yield* events;
+}
+
+describe("collectStream", () => {
+  it("assembles the deltas once the done frame arrives", async () => {
+    const deltas: string[] = [];
+    const res = await collectStream(
+      frames({ type: "delta", text: "Hel" }, { type: "delta", text: "lo" }, { type: "done", scopeId: "s1", messageId: "m1" }),
+      req,
+      (text) => deltas.push(text)
+    );
+    expect(deltas).toEqual(["Hel", "lo"]);
+    expect(res).toMatchObject({ reply: "Hello", scopeId: "s1", messageId: "m1" });
+  });
+
+  it("rejects a stream cut off before the done frame", async () => {
+    await expect(collectStream(frames({ type: "delta", text: "Hal" }), req, () => {})).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it("rejects with the message of an error frame", async () => {
+    const result = collectStream(frames({ type: "delta", text: "Hal" }, { type: "error", message: "Model overloaded" }), req, () => {});
+    await expect(result).rejects.toBeInstanceOf(StreamError);
+    await expect(result).rejects.toMatchObject({ body: "Model overloaded" });
+  });
+});
@@ -0,0 +1,87 @@
+import type {
+  ActionRequest,
+  ChatAttachment,
+  ChatConfig,
+  ChatRequest,
+  ChatResponse,
+  FeedbackRequest,
+  FormSubmission,
+  RequestOptions,
+  TranscriptEmailRequest,
+  UploadOptions,
+} from "./ChatClient";
+import { NetworkError, StreamError } from "./ChatClient";
+import type { AgentConnection, AgentEvent, HandoffSession } from "./agent";
+import type { ChatStreamEvent } from "./stream";
+
+/**
+ * What the widget needs from a backend. `ChatClient` talks HTTP to the .NET
+ * API; `MockTransport` answers from memory for demos, Storybook and tests.
+ */
+export interface ChatTransport {
+  getConfig(configCode: string): Promise<ChatConfig>;
+  send(req: ChatRequest, options?: RequestOptions): Promise<ChatResponse>;
+  /** Optional streaming variant; transports without it always answer buffered */
+  stream?(req: ChatRequest, options?: RequestOptions): AsyncIterable<ChatStreamEvent>;
+  /** Optional; the widget hides rating controls when missing */
+  sendFeedback?(feedback: FeedbackRequest): Promise<void>;
+  /** Optional; without it handoff signals are ignored and the bot keeps answering */
+  connectAgent?(session: HandoffSession, onEvent: (event: AgentEvent) => void): AgentConnection;
+  /** Optional; without it forms in replies can't be submitted */
+  submitForm?(submission: FormSubmission): Promise<Partial<ChatResponse>>;
+  /** Optional; button actions then only reach the host page */
+  triggerAction?(req: ActionRequest): Promise<Partial<ChatResponse>>;
+  /** Optional; the widget hides "Email me this conversation" when missing */
+  emailTranscript?(req: TranscriptEmailRequest): Promise<void>;
+  /** Optional; the widget hides the attach button when missing */
+  uploadAttachment?(file: File, configCode: string, options?: UploadOptions): Promise<ChatAttachment>;
+}
+
+/**
+ * Consumes a reply stream, reporting deltas, and resolves with the assembled response.
+ * A stream that ends without a `done` frame was cut off and rejects with a `NetworkError`.
+ */
+export async function collectStream(
+  events: AsyncIterable<ChatStreamEvent>,
+  req: ChatRequest,
+  onDelta: (text: string) => void
+): Promise<ChatResponse> {
+  let reply = "";
+  let final: Omit<Extract<ChatStreamEvent, { type: "done" }>, "type"> | null = null;
+
+  for await (const event of events) {
+    if (event.type === "delta") {
+      reply += event.text;
+      onDelta(event.text);
+    } else if (event.type === "done") {
+      final = event;
+    } else if (event.type === "error") {
+      throw new StreamError(event.message);
+    }
+  }
+
+  if (!final) throw new NetworkError("Chat stream ended before the reply was complete");
+
+  return {
+    reply,
+    scopeId: final.scopeId || req.scopeId || "",
+    messageId: final.messageId,
+    followups: final.followups,
+    blocks: final.blocks,
+    sources: final.sources,
+    handoff: final.handoff,
+  };
+}
+
+/** Streams when both the caller and the transport support it, otherwise falls back to `send()`. */
+export function sendMessage(
+  transport: ChatTransport,
+  req: ChatRequest,
+  options: RequestOptions & { onDelta?: (text: string) => void } = {}
+): Promise<ChatResponse> {
+  const { onDelta, ...requestOptions } = options;
+  if (onDelta && transport.stream) {
+    return collectStream(transport.stream(req, requestOptions), req, onDelta);
+  }
+  return transport.send(req, requestOptions);
+}
@@ -0,0 +1,116 @@
+import type { ChatAttachment } from "../api/ChatClient";
+import { formatString, type UiStrings } from "../i18n/strings";
+import { formatBytes, type PendingAttachment } from "./useAttachments";
+
+type TrayProps = {
+    items: PendingAttachment[];
+    strings: UiStrings;
+    onRemove: (key: number) => void;
+};
+
+/** Files picked in the composer, with upload progress */
+export function AttachmentTray({ items, strings, onRemove }: TrayProps) {
+    if (items.length === 0) return null;
+    return (
+        <div className="flex flex-wrap gap-2 mb-2">
+            {items.map((item) => (
+                <div
+                    key={item.key}
+                    className={[
+                        "relative flex items-center gap-2 pl-1 pr-7 py-1 rounded-lg text-xs max-w-[12rem]",
+                        "border bg-white dark:bg-neutral-900",
+                        item.error ? "border-red-500" : "border-neutral-300 dark:border-neutral-700",
+                    ].join(" ")}
+                >
+                    <AttachmentPreview name={item.file.name} type={item.file.type} src={item.previewUrl} />
+                    <div className="min-w-0">
+                        <div className="truncate">{item.file.name}</div>
+                        <div className={item.error ? "text-red-600" : "text-neutral-500 dark:text-neutral-400"}>
+                            {item.error ?? formatBytes(item.file.size)}
+                        </div>
+                    </div>
+                    <button
+                        className="absolute top-1 right-1 w-5 h-5 rounded-full text-neutral-500 hover:text-neutral-900 dark:hover:text-white"
+                        aria-label={formatString(strings.removeAttachment, { name: item.file.name })}
+                        title={formatString(strings.removeAttachment, { name: item.file.name })}
+                        onClick={() => onRemove(item.key)}
+                    >
+                        ×
+                    </button>
+                    {!item.attachment && !item.error && (
+                        <div className="absolute left-1 right-1 bottom-0.5 h-0.5 rounded bg-neutral-200 dark:bg-neutral-700">
+                            <div
+                                className="h-full rounded bg-velior-primary transition-[width]"
+                                style={{ width: `${Math.round(item.progress * 100)}%` }}
+                            />
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+type ListProps = {
+    attachments: ChatAttachment[];
+    /** local object URLs by attachment id, used when the server returned no url */
+    previews: Record<string, string>;
+};
+
+/** Thumbnails for images and file chips for everything else, shown in user bubbles */
+export function AttachmentList({ attachments, previews }: ListProps) {
+    return (
+        <div className="flex flex-wrap justify-end gap-2">
+            {attachments.map((a) => {
+                const src = a.url ?? previews[a.id];
+                if (a.type.startsWith("image/") && src) {
+                    return (
+                        <a key={a.id} href={src} target="_blank" rel="noopener noreferrer" title={a.name}>
+                            <img src={src} alt={a.name} className="max-h-32 max-w-[10rem] rounded-lg object-cover" />
+                        </a>
+                    );
+                }
+                const chip = (
+                    <span className="flex items-center gap-2 px-2 py-1 rounded-lg text-xs border border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 max-w-[12rem]">
+                        <AttachmentPreview name={a.name} type={a.type} />
+                        <span className="truncate">{a.name}</span>
+                        <span className="flex-none text-neutral-500 dark:text-neutral-400">{formatBytes(a.size)}</span>
+                    </span>
+                );
+                return a.url ? (
+                    <a key={a.id} href={a.url} target="_blank" rel="noopener noreferrer">
+                        {chip}
+                    </a>
+                ) : (
+                    <span key={a.id}>{chip}</span>
+                );
+            })}
+        </div>
+    );
+}
+
+function AttachmentPreview({ name, type, src }: { name: string; type: string; src?: string }) {
+    if (src) return <img src={src} alt="" className="w-8 h-8 flex-none rounded object-cover" />;
+    const ext = name.includes(".") ? name.split(".").pop()!.slice(0, 4) : type.split("/")[1]?.slice(0, 4);
+    return (
+        <span className="w-8 h-8 flex-none rounded bg-neutral-200 dark:bg-neutral-700 flex items-center justify-center text-[10px] font-semibold uppercase">
+            {ext || "file"}
+        </span>
+    );
+}
+
+export function PaperclipIcon() {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            viewBox="0 0 24 24"
+            className="w-5 h-5 fill-none stroke-current"
+            strokeWidth={2}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            aria-hidden="true"
+        >
+            <path d="M21.44 11.05l-9.19 9.19a6 6 0 0 1-8.49-8.49l9.19-9.19a4 4 0 0 1 5.66 5.66l-9.2 9.19a2 2 0 0 1-2.83-2.83l8.49-8.48" />
+        </svg>
+    );
+}
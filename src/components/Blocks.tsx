@@ -0,0 +1,184 @@
+import { useState, type FormEvent } from "react";
+import type { BlockAction, CardBlock, ChatBlock, FormBlock } from "../api/blocks";
+import type { UiStrings } from "../i18n/strings";
+import { MarkdownContent } from "./MarkdownContent";
+
+type Props = {
+    blocks: ChatBlock[];
+    strings: UiStrings;
+    /** values of forms already sent, by form id */
+    submitted?: Record<string, Record<string, string>>;
+    onAction: (action: BlockAction) => void;
+    /** forms are hidden when the transport can't submit them */
+    onSubmitForm?: (formId: string, values: Record<string, string>) => Promise<void>;
+};
+
+/** Cards, buttons and forms attached to an AI reply */
+export function MessageBlocks({ blocks, strings, submitted, onAction, onSubmitForm }: Props) {
+    return (
+        <div className="flex flex-col gap-2 w-full">
+            {blocks.map((block, i) => {
+                switch (block.type) {
+                    case "text":
+                        return (
+                            <div key={i} className="px-4 py-2 rounded-velior text-sm bg-neutral-200 dark:bg-neutral-700">
+                                <MarkdownContent text={block.text} copyLabel={strings.copy} copiedLabel={strings.copied} />
+                            </div>
+                        );
+                    case "card":
+                        return <Card key={i} card={block} onAction={onAction} />;
+                    case "buttons":
+                        return <ActionButtons key={i} buttons={block.buttons} onAction={onAction} />;
+                    case "form":
+                        return onSubmitForm ? (
+                            <BlockForm
+                                key={i}
+                                form={block}
+                                strings={strings}
+                                sentValues={submitted?.[block.id]}
+                                onSubmit={(values) => onSubmitForm(block.id, values)}
+                            />
+                        ) : null;
+                    default:
+                        return null;
+                }
+            })}
+        </div>
+    );
+}
+
+function Card({ card, onAction }: { card: CardBlock; onAction: (action: BlockAction) => void }) {
+    return (
+        <div className="w-64 max-w-full overflow-hidden rounded-velior border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900">
+            {card.imageUrl && <img src={card.imageUrl} alt="" className="w-full h-32 object-cover" />}
+            <div className="p-3 flex flex-col gap-2 text-sm">
+                <div className="font-semibold">
+                    {card.url ? (
+                        <a href={card.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                            {card.title}
+                        </a>
+                    ) : (
+                        card.title
+                    )}
+                </div>
+                {card.text && <div className="text-neutral-600 dark:text-neutral-300">{card.text}</div>}
+                {card.buttons && card.buttons.length > 0 && <ActionButtons buttons={card.buttons} onAction={onAction} />}
+            </div>
+        </div>
+    );
+}
+
+const buttonClass =
+    "inline-flex items-center text-xs px-3 py-1.5 rounded-full bg-velior-primary text-velior-primary-text hover:brightness-110 transition";
+
+function ActionButtons({ buttons, onAction }: { buttons: BlockAction[]; onAction: (action: BlockAction) => void }) {
+    return (
+        <div className="flex flex-wrap gap-2">
+            {buttons.map((b, i) =>
+                b.url ? (
+                    <a
+                        key={i}
+                        href={b.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className={buttonClass}
+                        onClick={() => b.action && onAction(b)}
+                    >
+                        {b.label}
+                    </a>
+                ) : (
+                    <button key={i} className={buttonClass} onClick={() => onAction(b)}>
+                        {b.label}
+                    </button>
+                )
+            )}
+        </div>
+    );
+}
+
+type FormProps = {
+    form: FormBlock;
+    strings: UiStrings;
+    sentValues?: Record<string, string>;
+    onSubmit: (values: Record<string, string>) => Promise<void>;
+};
+
+function BlockForm({ form, strings, sentValues, onSubmit }: FormProps) {
+    const [values, setValues] = useState<Record<string, string>>(() => sentValues ?? {});
+    const [status, setStatus] = useState<"idle" | "sending" | "failed">("idle");
+    const sent = !!sentValues;
+
+    const submit = async (e: FormEvent) => {
+        e.preventDefault();
+        setStatus("sending");
+        try {
+            await onSubmit(values);
+            setStatus("idle");
+        } catch (err) {
+            console.warn("VeliorAiChat: form submission failed", err);
+            setStatus("failed");
+        }
+    };
+
+    const inputClass =
+        "w-full px-2 py-1.5 rounded text-sm border border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 focus:outline-none focus:ring-2 focus:ring-velior-primary disabled:opacity-60";
+
+    return (
+        <form
+            onSubmit={submit}
+            className="w-64 max-w-full p-3 flex flex-col gap-2 rounded-velior border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 text-sm"
+        >
+            {form.title && <div className="font-semibold">{form.title}</div>}
+            <fieldset disabled={sent || status === "sending"} className="flex flex-col gap-2">
+                {form.fields.map((field) => {
+                    const common = {
+                        name: field.name,
+                        required: field.required,
+                        placeholder: field.placeholder,
+                        value: values[field.name] ?? "",
+                        className: inputClass,
+                        onChange: (e: { target: { value: string } }) =>
+                            setValues((v) => ({ ...v, [field.name]: e.target.value })),
+                    };
+                    return (
+                        <label key={field.name} className="flex flex-col gap-1 text-xs">
+                            {field.label}
+                            {field.type === "textarea" ? (
+                                <textarea rows={3} {...common} />
+                            ) : field.type === "select" ? (
+                                <select {...common}>
+                                    <option value="" />
+                                    {field.options?.map((o) => (
+                                        <option key={o.value} value={o.value}>
+                                            {o.label}
+                                        </option>
+                                    ))}
+                                </select>
+                            ) : (
+                                <input type={field.type} {...common} />
+                            )}
+                        </label>
+                    );
+                })}
+            </fieldset>
+            {sent ? (
+                <div className="text-xs text-neutral-500 dark:text-neutral-400" role="status">
+                    {strings.formSubmitted}
+                </div>
+            ) : (
+                <button
+                    type="submit"
+                    disabled={status === "sending"}
+                    className="self-start px-3 py-1.5 rounded-full text-xs bg-velior-primary text-velior-primary-text disabled:opacity-50"
+                >
+                    {form.submitLabel ?? strings.formSubmit}
+                </button>
+            )}
+            {status === "failed" && (
+                <div className="text-xs text-red-600 dark:text-red-400" role="alert">
+                    {strings.formFailed}
+                </div>
+            )}
+        </form>
+    );
+}
@@ -1,64 +1,536 @@
-import { useState, useRef, useEffect, useMemo } from "react";
-import { ChatClient, ApiError } from "../api/ChatClient";
+import { useState, useRef, useEffect, useMemo, useImperativeHandle, type Ref } from "react";
+import {
+    ChatClient,
+    ApiError,
+    NetworkError,
+    RateLimitError,
+    StreamError,
+    TimeoutError,
+    isAbortError,
+    resolveProvider,
+    type AuthTokenProvider,
+    type ChatAttachment,
+    type ChatConfig,
+    type ChatIdentity,
+    type ChatResponse,
+    type FeedbackRating,
+    type Provider,
+} from "../api/ChatClient";
+import type { AgentConnection, AgentStatus, HandoffSession } from "../api/agent";
+import { getPageContext, trimSelection } from "../api/context";
+import { parseBlocks, parseSources, type BlockAction } from "../api/blocks";
+import { sendMessage, type ChatTransport } from "../api/transport";
+import { formatString, getStrings, resolveLocale, type UiStrings } from "../i18n/strings";
+import {
+    conversationKey,
+    createConversationStore,
+    type ConversationStore,
+    type PersistenceMode,
+} from "../storage/conversationStore";
+import { mergeThemes, themeToCssVars, useDarkMode, type ChatTheme } from "../theme/theme";
+import { AttachmentList, AttachmentTray, PaperclipIcon } from "./Attachments";
+import { MessageBlocks } from "./Blocks";
+import { Composer } from "./Composer";
+import { ExportMenu, type ExportFormat } from "./ExportMenu";
+import { FeedbackControls } from "./FeedbackControls";
+import { FollowupChips } from "./FollowupChips";
+import { MarkdownContent } from "./MarkdownContent";
+import { SourceList } from "./Sources";
+import { useAttachments } from "./useAttachments";
+import {
+    downloadFile,
+    printDocument,
+    renderTranscript,
+    transcriptFileName,
+    transcriptToJson,
+    transcriptToMarkdown,
+} from "../transcript/transcript";
+import type { ChatEventHandlers, ChatMessage } from "../types";
 
-type Props = {
+const DEFAULT_ATTACHMENT_TYPES = ["image/*", "application/pdf"];
+
+export type ChatWidgetProps = Omit<ChatEventHandlers, "onOpen" | "onClose" | "onCssError"> & {
     apiUrl: string;
     configCode: string;
     /** Optional initial AI message (rendered once on mount) */
     initialMessage?: string;
     /** Optional initial followups associated with initialMessage */
     initialFollowups?: string[];
+    /** Render replies as they arrive when the server streams them (default true) */
+    streaming?: boolean;
+    /** Where the conversation is kept across page loads: "local" (default), "session", "none" or a custom store */
+    persistence?: PersistenceMode | ConversationStore;
+    /** Milliseconds after the last message before a persisted conversation expires (default 24h, 0 = never) */
+    persistenceTtl?: number;
+    /** Arbitrary host-page data forwarded with every chat request as `context.metadata` */
+    context?: Record<string, unknown>;
+    /** Send the page URL, title and language with every chat request (default true) */
+    pageContext?: boolean;
+    /** UI language ("cs", "sk", "de", "en" or a full tag like "de-AT"); defaults to the config's locale, then the browser's */
+    locale?: string;
+    /** Per-string overrides applied on top of the locale's built-in strings */
+    strings?: Partial<UiStrings>;
+    /** Branding; fields set here win over the theme served with the config */
+    theme?: ChatTheme;
+    /** Milliseconds to wait for the server before giving up (default 30000) */
+    requestTimeout?: number;
+    /** Automatic retries after network errors and 5xx responses (default 2) */
+    maxRetries?: number;
+    /** Bearer token for the chat API; called again with `forceRefresh` after a 401 */
+    getAuthToken?: AuthTokenProvider;
+    /** Extra request headers, static or computed per request */
+    headers?: Provider<Record<string, string> | undefined>;
+    /**
+     * Signed visitor identity forwarded with chat and config requests. Only a static object
+     * also scopes the saved conversation by `userId`; the function form is resolved per request,
+     * after the conversation was restored, so resolve it first when visitors may share a browser.
+     */
+    identity?: Provider<ChatIdentity | null | undefined>;
+    /** Longest message in characters; the composer shows a counter near it and blocks sending above it. Defaults to the config's limit */
+    maxMessageLength?: number;
+    /** Files per message; 0 hides the attach button (default 5) */
+    maxAttachments?: number;
+    /** Offer "Email me this conversation" in the export menu; needs the transcript email endpoint (default false) */
+    transcriptEmail?: boolean;
+    /** Largest accepted file in bytes (default 10 MB) */
+    maxAttachmentSize?: number;
+    /** Accepted MIME types, wildcards or extensions (default images and PDF) */
+    attachmentTypes?: string[];
+    /** Backend to talk to instead of the HTTP API at `apiUrl`, e.g. a `MockTransport` */
+    transport?: ChatTransport;
+    /** Called once the server config for `configCode` has loaded */
+    onConfigLoaded?: (config: ChatConfig) => void;
+    /** Called for each message a live agent sends during a handoff */
+    onAgentMessage?: (message: ChatMessage) => void;
+    ref?: Ref<ChatWidgetHandle>;
+};
+
+/** Imperative API used by the CDN entry to drive a mounted widget */
+export type ChatWidgetHandle = {
+    send: (text: string) => void;
+    reset: () => void;
+    /** Quotes highlighted page text; the next message asks about it */
+    askAbout: (text: string) => void;
 };
 
-export function ChatWidget({ apiUrl, configCode, initialMessage, initialFollowups }: Props) {
-    const [messages, setMessages] = useState<
-        { role: "user" | "ai"; text: string; intro?: boolean }[]
-    >([]);
-    const [followups, setFollowups] = useState<string[]>([]);
+export function ChatWidget({
+    apiUrl,
+    configCode,
+    initialMessage,
+    initialFollowups,
+    streaming = true,
+    persistence,
+    persistenceTtl,
+    context,
+    pageContext = true,
+    locale,
+    strings: stringOverrides,
+    theme,
+    onConfigLoaded,
+    onAgentMessage,
+    requestTimeout,
+    maxRetries,
+    getAuthToken,
+    headers,
+    identity,
+    maxMessageLength,
+    maxAttachments = 5,
+    transcriptEmail = false,
+    maxAttachmentSize = 10 * 1024 * 1024,
+    attachmentTypes = DEFAULT_ATTACHMENT_TYPES,
+    transport,
+    ref,
+    onMessageSent,
+    onReply,
+    onFollowupClick,
+    onAction,
+    onError,
+}: ChatWidgetProps) {
+    const store = useMemo(() => createConversationStore(persistence, persistenceTtl), [persistence, persistenceTtl]);
+    // a function `identity` can't be awaited before the conversation is restored, see the prop docs
+    const storageKey = conversationKey(
+        apiUrl,
+        configCode,
+        identity && typeof identity === "object" ? identity.userId : undefined
+    );
+    // conversation restored from the store on mount, if any
+    const [restored] = useState(() => {
+        const saved = store.load(storageKey);
+        return saved && saved.messages.length > 0 ? saved : null;
+    });
+    // bumped by "Start new conversation" so the intro is shown again
+    const [conversation, setConversation] = useState(0);
+    const [serverConfig, setServerConfig] = useState<ChatConfig | null>(null);
+    const strings = useMemo(
+        () => getStrings(locale ?? serverConfig?.locale, serverConfig?.strings, stringOverrides),
+        [locale, serverConfig, stringOverrides]
+    );
+    const resolvedTheme = useMemo(() => mergeThemes(serverConfig?.theme, theme), [serverConfig, theme]);
+    const isDark = useDarkMode(resolvedTheme.mode);
 
-    const [scopeId, setScopeId] = useState<string | undefined>();
-    const client = useMemo(() => new ChatClient(apiUrl), [apiUrl]);
+    const [messages, setMessages] = useState<ChatMessage[]>(() => restored?.messages ?? []);
+    // AI reply currently being streamed; moved into `messages` once complete
+    const [pendingReply, setPendingReply] = useState<string | null>(null);
+    const [followups, setFollowups] = useState<string[]>(() => restored?.followups ?? []);
+
+    const [scopeId, setScopeId] = useState<string | undefined>(() => restored?.scopeId);
+    // auth providers are read through a ref so inline callbacks don't rebuild the client
+    const authRef = useRef({ getAuthToken, headers, identity });
+    useEffect(() => {
+        authRef.current = { getAuthToken, headers, identity };
+    });
+    const hasAuthToken = !!getAuthToken;
+    const client = useMemo<ChatTransport>(
+        () =>
+            transport ??
+            new ChatClient(apiUrl, {
+                timeoutMs: requestTimeout,
+                maxRetries,
+                // without a provider a 401 is final; a wrapper would make ChatClient retry every one
+                getAuthToken: hasAuthToken ? (opts) => authRef.current.getAuthToken?.(opts) : undefined,
+                headers: () => resolveProvider(authRef.current.headers),
+                identity: () => resolveProvider(authRef.current.identity),
+            }),
+        [transport, apiUrl, requestTimeout, maxRetries, hasAuthToken]
+    );
     const messagesRef = useRef<HTMLDivElement | null>(null);
     const [userNearBottom, setUserNearBottom] = useState(true);
     const [isTyping, setIsTyping] = useState(false);
     const [rateLimitMessage, setRateLimitMessage] = useState<string | null>(null);
+    // end of a Retry-After window; input stays disabled and the banner counts down until then
+    const [retryAt, setRetryAt] = useState<number | null>(null);
+    const [retrySeconds, setRetrySeconds] = useState(0);
     const didInitialScrollRef = useRef(false);
+    const abortRef = useRef<AbortController | null>(null);
+    // index of the user message being edited in place
+    const [editingIndex, setEditingIndex] = useState<number | null>(null);
+    // id of the reply whose rating couldn't be sent
+    const [feedbackFailed, setFeedbackFailed] = useState<string | null>(null);
 
-    const send = async (text: string) => {
-        setMessages((m) => [...m, { role: "user", text }]);
+    const attachments = useAttachments(
+        client,
+        configCode,
+        { maxFiles: maxAttachments, maxSize: maxAttachmentSize, accept: attachmentTypes },
+        strings
+    );
+    const fileInputRef = useRef<HTMLInputElement | null>(null);
+    // a file is being dragged over the widget
+    const [dragging, setDragging] = useState(false);
+
+    // live-agent session after a handoff; the bot is out of the loop until it ends
+    const [handoff, setHandoff] = useState<HandoffSession | null>(() => restored?.handoff ?? null);
+    // attachments wait until the bot is back; the agent connection carries text only
+    const canAttach = attachments.enabled && !handoff;
+    const [agentStatus, setAgentStatus] = useState<AgentStatus>("queued");
+    const [agentName, setAgentName] = useState<string | undefined>();
+    const [agentTyping, setAgentTyping] = useState(false);
+    // "back to the assistant" note after a handoff ended
+    const [handoffEnded, setHandoffEnded] = useState(false);
+    const agentRef = useRef<AgentConnection | null>(null);
+    // footnote marker last clicked, which expands that reply's source list
+    const [citation, setCitation] = useState<{ index: number; n: number } | null>(null);
+    // page text quoted for the next message ("Ask about selection")
+    const [selection, setSelection] = useState<string | null>(null);
+
+    const reportError = (err: unknown) => {
+        let message: string;
+        if (err instanceof RateLimitError) {
+            message = strings.rateLimited;
+            if (err.retryAfterMs) {
+                setRetryAt(Date.now() + err.retryAfterMs);
+                setRetrySeconds(Math.ceil(err.retryAfterMs / 1000));
+            }
+        } else if (err instanceof TimeoutError) {
+            message = strings.timeout;
+        } else if (err instanceof NetworkError) {
+            message = strings.networkError;
+        } else if (err instanceof StreamError) {
+            // written for the visitor, unlike a response body
+            message = err.body || strings.requestFailed;
+        } else if (err instanceof ApiError) {
+            // the response body may be a proxy's HTML error page; it only goes to onError
+            message = err.status >= 500 ? formatString(strings.serverError, { status: err.status }) : strings.requestFailed;
+        } else if (err instanceof Error) {
+            message = err.message || strings.requestFailed;
+        } else {
+            message = String(err) || strings.requestFailed;
+        }
+        setRateLimitMessage(message);
+        const status = err instanceof ApiError ? err.status : undefined;
+        const body = err instanceof ApiError ? err.body || undefined : undefined;
+        const retryAfterMs = err instanceof RateLimitError ? err.retryAfterMs : undefined;
+        onError?.({ configCode, message, status, body, rateLimited: status === 429, retryAfterMs, error: err });
+    };
+
+    /**
+     * Resolves false when the request failed (not when it was stopped). With `fromDraft` the
+     * composer takes the message back on failure, so its bubble is removed again.
+     */
+    const send = async (text: string, files?: ChatAttachment[], quote?: string, fromDraft = false): Promise<boolean> => {
+        // a live agent only receives text, so the bubble doesn't show files or a quote they never get
+        const sent = !handoff && files && files.length > 0 ? files : undefined;
+        const quoted = handoff ? undefined : quote;
+        const userMessage: ChatMessage = { role: "user", text, attachments: sent, quote: quoted, sentAt: Date.now() };
+        setMessages((m) => [...m, userMessage]);
+        const failed = (err: unknown) => {
+            reportError(err);
+            if (fromDraft) setMessages((m) => m.filter((msg) => msg !== userMessage));
+            return false;
+        };
+        setFollowups([]);
+        onMessageSent?.({ configCode, text, scopeId });
+
+        if (handoff) {
+            try {
+                const connection = agentRef.current;
+                if (!connection) throw new NetworkError("Live agent connection is not open");
+                await connection.send(text);
+                return true;
+            } catch (err: unknown) {
+                return failed(err);
+            }
+        }
+
+        const controller = new AbortController();
+        abortRef.current = controller;
+        let partial = "";
 
         setIsTyping(true);
         try {
-            const res = await client.send({
+            const req = {
                 message: text,
                 configCode,
                 scopeId,
+                context: { page: pageContext ? getPageContext() : undefined, metadata: context, selection: quoted },
+                attachments: sent,
+            };
+            const onDelta = (delta: string) => {
+                partial += delta;
+                setPendingReply(partial);
+            };
+            const res = await sendMessage(client, req, {
+                signal: controller.signal,
+                onDelta: streaming ? onDelta : undefined,
             });
 
             setScopeId(res.scopeId);
-            setMessages((m) => [...m, { role: "ai", text: res.reply }]);
+            setMessages((m) => [...m, { role: "ai", text: res.reply, id: res.messageId, ...replyExtras(res), sentAt: Date.now() }]);
             setFollowups(res.followups ?? []);
+            if (res.handoff && client.connectAgent) {
+                setAgentStatus("queued");
+                setAgentName(undefined);
+                setHandoffEnded(false);
+                setHandoff(res.handoff);
+            }
+            onReply?.({ configCode, reply: res.reply, scopeId: res.scopeId, followups: res.followups ?? [] });
             setTimeout(() => requestAnimationFrame(() => scrollToBottom(true)), 0);
+            return true;
         } catch (err: unknown) {
-            if (err instanceof ApiError) {
-                if (err.status === 429) {
-                    setRateLimitMessage(err.body || err.message || "Rate limit exceeded for this configuration.");
+            if (isAbortError(err)) {
+                // keep whatever was streamed before the user pressed Stop (not when the conversation was reset)
+                if (partial && abortRef.current === controller) setMessages((m) => [...m, { role: "ai", text: partial, sentAt: Date.now() }]);
+                return true;
+            }
+            return failed(err);
+        } finally {
+            if (abortRef.current === controller) abortRef.current = null;
+            setPendingReply(null);
+            setIsTyping(false);
+        }
+    };
+
+    const stop = () => abortRef.current?.abort();
+
+    // read through a ref so a new inline callback doesn't reconnect the agent session
+    const onAgentMessageRef = useRef(onAgentMessage);
+    useEffect(() => {
+        onAgentMessageRef.current = onAgentMessage;
+    });
+
+    // listen to the agent session for as long as the handoff lasts
+    useEffect(() => {
+        if (!handoff || !client.connectAgent) return;
+        const connection = client.connectAgent(handoff, (event) => {
+            if (event.type === "status") {
+                if (event.agentName) setAgentName(event.agentName);
+                if (event.status === "ended") {
+                    setHandoff(null);
+                    setAgentTyping(false);
+                    setHandoffEnded(true);
                 } else {
-                    setRateLimitMessage(err.body || err.message || `Server error (${err.status})`);
+                    setAgentStatus(event.status);
                 }
-            } else if (err instanceof Error) {
-                setRateLimitMessage(err.message || "Chat request failed.");
+            } else if (event.type === "message") {
+                setAgentTyping(false);
+                const message: ChatMessage = {
+                    role: "agent",
+                    text: event.text,
+                    id: event.id,
+                    agentName: event.agentName,
+                    sentAt: event.sentAt ?? Date.now(),
+                };
+                setMessages((m) => [...m, message]);
+                onAgentMessageRef.current?.(message);
             } else {
-                setRateLimitMessage(String(err) || "Chat request failed.");
+                setAgentTyping(event.typing);
             }
-        } finally {
-            setIsTyping(false);
+        });
+        agentRef.current = connection;
+        return () => {
+            connection.close();
+            if (agentRef.current === connection) agentRef.current = null;
+        };
+    }, [client, handoff]);
+
+    const endHandoff = () => {
+        agentRef.current?.end().catch((err: unknown) => console.warn("VeliorAiChat: failed to end agent session", err));
+        setHandoff(null);
+        setAgentTyping(false);
+        setHandoffEnded(true);
+    };
+
+    // drop the last exchange and ask again with the same question
+    const regenerate = () => {
+        const userIndex = lastIndexOfRole(messages, "user");
+        if (userIndex < 0) return;
+        const { text, attachments: files, quote } = messages[userIndex];
+        setMessages(messages.slice(0, userIndex));
+        void send(text, files, quote);
+    };
+
+    const resendEdited = (index: number, text: string) => {
+        setEditingIndex(null);
+        const { attachments: files, quote } = messages[index];
+        if (!text.trim() && !files) return;
+        setMessages(messages.slice(0, index));
+        void send(text, files, quote);
+    };
+
+    // rating is sent right away; a follow-up comment resends it with the text attached
+    const rateMessage = (index: number, rating: FeedbackRating, comment?: string) => {
+        const message = messages[index];
+        if (!message?.id || !scopeId) return;
+        const messageId = message.id;
+        const feedback = { rating, comment };
+        setFeedbackFailed(null);
+        setMessages((m) => m.map((msg, i) => (i === index ? { ...msg, feedback } : msg)));
+        client.sendFeedback?.({ configCode, scopeId, messageId, rating, comment }).catch((err: unknown) => {
+            console.warn("VeliorAiChat: failed to send feedback", err);
+            // put the previous rating back unless the visitor has rated again meanwhile
+            setMessages((m) =>
+                m.map((msg) => (msg.id === messageId && msg.feedback === feedback ? { ...msg, feedback: message.feedback } : msg))
+            );
+            setFeedbackFailed(messageId);
+        });
+    };
+
+    // a form submission or button action may answer with a reply of its own
+    const appendServerReply = (res: Partial<ChatResponse>) => {
+        const extras = replyExtras(res);
+        if (!res.reply && !extras.blocks) return;
+        setMessages((m) => [...m, { role: "ai", text: res.reply ?? "", id: res.messageId, ...extras, sentAt: Date.now() }]);
+        if (res.followups) setFollowups(res.followups);
+        setTimeout(() => requestAnimationFrame(() => scrollToBottom(true)), 0);
+    };
+
+    // url buttons are plain links; only `action` is reported to the host page and the backend
+    const handleBlockAction = (index: number, { action, payload }: BlockAction) => {
+        if (!action) return;
+        const messageId = messages[index]?.id;
+        onAction?.({ configCode, action, payload, messageId });
+        if (!scopeId || !client.triggerAction) return;
+        client
+            .triggerAction({ configCode, scopeId, messageId, action, payload })
+            .then(appendServerReply)
+            .catch((err: unknown) => console.warn("VeliorAiChat: failed to send action", err));
+    };
+
+    // rejects when the submission failed, so the form can show its error
+    const submitBlockForm = async (index: number, formId: string, values: Record<string, string>) => {
+        if (!scopeId || !client.submitForm) throw new Error("Form submission is not available");
+        const res = await client.submitForm({ configCode, scopeId, messageId: messages[index]?.id, formId, values });
+        setMessages((m) =>
+            m.map((msg, i) => (i === index ? { ...msg, submitted: { ...msg.submitted, [formId]: values } } : msg))
+        );
+        appendServerReply(res);
+    };
+
+    const exportTranscript = (format: ExportFormat) => {
+        const meta = { configCode, scopeId, exportedAt: Date.now(), locale: resolveLocale(locale ?? serverConfig?.locale) };
+        if (format === "markdown") {
+            downloadFile(transcriptFileName(meta, "md"), transcriptToMarkdown(messages, meta, strings), "text/markdown");
+        } else if (format === "json") {
+            downloadFile(transcriptFileName(meta, "json"), transcriptToJson(messages, meta), "application/json");
+        } else {
+            printDocument((doc) => renderTranscript(doc, messages, meta, strings));
         }
     };
 
+    const emailTranscript =
+        transcriptEmail && client.emailTranscript && scopeId
+            ? (email: string) =>
+                  client.emailTranscript!({
+                      configCode,
+                      scopeId,
+                      email,
+                      locale: resolveLocale(locale ?? serverConfig?.locale),
+                  })
+            : undefined;
+
+    const startNewConversation = () => {
+        if (handoff) endHandoff();
+        setHandoffEnded(false);
+        abortRef.current?.abort();
+        abortRef.current = null;
+        store.clear(storageKey);
+        setMessages([]);
+        setFollowups([]);
+        setScopeId(undefined);
+        setEditingIndex(null);
+        setCitation(null);
+        setSelection(null);
+        setRateLimitMessage(null);
+        setRetryAt(null);
+        attachments.clear();
+        setConversation((c) => c + 1);
+    };
+
+    useImperativeHandle(ref, () => ({
+        send: (text: string) => {
+            if (!text.trim() || isTyping) return;
+            void send(text);
+        },
+        reset: startNewConversation,
+        askAbout: (text: string) => setSelection(trimSelection(text) || null),
+    }));
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    // Retry-After countdown; clears the banner and re-enables input when it ends
+    useEffect(() => {
+        if (retryAt === null) return;
+        const id = setInterval(() => {
+            const left = retryAt - Date.now();
+            if (left > 0) {
+                setRetrySeconds(Math.ceil(left / 1000));
+                return;
+            }
+            setRetryAt(null);
+            setRateLimitMessage(null);
+        }, 250);
+        return () => clearInterval(id);
+    }, [retryAt]);
+
+    // persist once the visitor has said something; an intro-only transcript isn't worth keeping
+    useEffect(() => {
+        if (!messages.some((m) => m.role === "user")) return;
+        store.save(storageKey, { messages, followups, scopeId, handoff: handoff ?? undefined, savedAt: Date.now() });
+    }, [store, storageKey, messages, followups, scopeId, handoff]);
+
     const scrollToBottom = (smooth = true) => {
         const el = messagesRef.current;
         if (!el) return;
+        if (prefersReducedMotion()) smooth = false;
         try {
             const inner = el.firstElementChild as HTMLElement | null;
             const last = inner?.lastElementChild as HTMLElement | null;
@@ -79,7 +551,7 @@ export function ChatWidget({ apiUrl, configCode, initialMessage, initialFollowup
 
     useEffect(() => {
         if (userNearBottom) scrollToBottom(true);
-    }, [messages, userNearBottom]);
+    }, [messages, pendingReply, userNearBottom]);
 
     useEffect(() => {
         if (didInitialScrollRef.current) return;
@@ -101,122 +573,255 @@ export function ChatWidget({ apiUrl, configCode, initialMessage, initialFollowup
 
     const handleFollowupClick = (text: string) => {
         setFollowups([]);
+        onFollowupClick?.({ configCode, text });
         void send(text);
     };
 
-    // mount: show optional initial message and initial followups
+    // kept in a ref so an inline callback doesn't refetch the config on every render
+    const onConfigLoadedRef = useRef(onConfigLoaded);
     useEffect(() => {
-        let mounted = true;
+        onConfigLoadedRef.current = onConfigLoaded;
+    });
 
-        const apply = (msg?: string, fups?: string[]) => {
-            if (!mounted) return;
-            if (msg) {
-                setMessages((m) => {
-                    if (m.length === 0) return [{ role: "ai", text: msg, intro: true }];
-                    return m;
-                });
+    // load server-side config: intro, followups, locale, strings and theme
+    useEffect(() => {
+        let mounted = true;
+        (async () => {
+            try {
+                const cfg = await client.getConfig(configCode);
+                if (!mounted) return;
+                setServerConfig(cfg);
+                onConfigLoadedRef.current?.(cfg);
+            } catch {
+                // ignore errors — widget can operate without server config
             }
-            if (fups) setFollowups(fups);
-        };
-
-        if (initialMessage) {
-            apply(initialMessage, initialFollowups ?? []);
-        } else {
-            // fetch defaults from server for this config
-            (async () => {
-                try {
-                    const cfg = await client.getConfig(configCode);
-                    apply(cfg.initialMessage, cfg.followups ?? []);
-                } catch {
-                    // ignore errors — widget can operate without intro
-                }
-            })();
-        }
-
+        })();
         return () => {
             mounted = false;
         };
-    }, [client, configCode, initialMessage, initialFollowups]);
+    }, [client, configCode]);
+
+    // show optional initial message and initial followups (again after "Start new conversation")
+    useEffect(() => {
+        // a restored conversation already has its own intro and followups
+        if (conversation === 0 && restored) return;
+
+        const msg = initialMessage ?? serverConfig?.initialMessage;
+        const fups = initialMessage ? initialFollowups : serverConfig?.followups;
+        if (msg) {
+            setMessages((m) => {
+                if (m.length === 0) return [{ role: "ai", text: msg, intro: true, sentAt: Date.now() }];
+                return m;
+            });
+        }
+        if (fups) setFollowups(fups);
+    }, [serverConfig, initialMessage, initialFollowups, conversation, restored]);
 
     useEffect(() => {
         const id = setTimeout(() => scrollToBottom(false), 0);
         return () => clearTimeout(id);
     }, []);
 
-    // Simple formatter: escapes HTML then converts **bold**, paragraphs, and basic lists
-    const escapeHtml = (unsafe: string) =>
-        unsafe
-            .replace(/&/g, "&amp;")
-            .replace(/</g, "&lt;")
-            .replace(/>/g, "&gt;")
-            .replace(/"/g, "&quot;")
-            .replace(/'/g, "&#039;");
-
-    const formatMessageToHtml = (text: string) => {
-        if (!text) return "";
-        // Normalize line endings
-        const raw = text.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
-        const blocks = raw.split(/\n\n+/);
-        const out: string[] = [];
-
-        for (const block of blocks) {
-            // detect pattern like: "1. Heading: - item - item" (single-line numbered section with dash-separated items)
-            const numberedWithDashes = block.match(/^\s*(\d+\.\s*[^:]+):\s*(.+)$/s);
-            if (numberedWithDashes) {
-                const rawHeading = numberedWithDashes[1].trim();
-                const rest = numberedWithDashes[2].trim();
-                // preserve numeric prefix (e.g. "1. ") but strip surrounding ** from the heading text
-                const prefixMatch = rawHeading.match(/^(\d+\.\s*)/);
-                const numericPrefix = prefixMatch ? prefixMatch[1] : "";
-                const headingText = rawHeading.replace(/^(\d+\.\s*)/, "");
-                const strippedHeading = headingText.replace(/^\*\*(.*)\*\*$/, "$1");
-                const items = rest
-                    .split(/\s*-\s+/)
-                    .map((s) => s.trim())
-                    .filter(Boolean)
-                    .map((it) => `<li>${escapeHtml(it).replace(/\*\*(.*?)\*\*/g, "<strong>$1</strong>")}</li>`)
-                    .join("");
-                out.push(`<p><strong>${escapeHtml(numericPrefix + strippedHeading)}</strong></p>`);
-                out.push(`<ul>${items}</ul>`);
-                continue;
-            }
-
-            const lines = block.split(/\n/).map((l) => l.trim());
-            // list detection: all lines start with '-' or digit + '.'
-            const isUnordered = lines.every((l) => l.startsWith("- "));
-            const isOrdered = lines.every((l) => /^\d+\.\s+/.test(l));
-            if (isUnordered) {
-                const items = lines
-                    .map((l) => {
-                        const content = escapeHtml(l.replace(/^-\s+/, ""));
-                        return `<li>${content.replace(/\*\*(.*?)\*\*/g, "<strong>$1</strong>")}</li>`;
-                    })
-                    .join("");
-                out.push(`<ul>${items}</ul>`);
-                continue;
-            }
-            if (isOrdered) {
-                const items = lines
-                    .map((l) => {
-                        const content = escapeHtml(l.replace(/^\d+\.\s+/, ""));
-                        return `<li>${content.replace(/\*\*(.*?)\*\*/g, "<strong>$1</strong>")}</li>`;
-                    })
-                    .join("");
-                out.push(`<ol>${items}</ol>`);
-                continue;
-            }
+    const lastUserIndex = lastIndexOfRole(messages, "user");
+    const lastMessage = messages[messages.length - 1];
+    // typed questions for Up-arrow recall in the composer
+    const userHistory = useMemo(
+        () => messages.filter((m) => m.role === "user" && m.text.trim()).map((m) => m.text),
+        [messages]
+    );
+    const canRegenerate = !isTyping && !handoff && lastMessage?.role === "ai" && !lastMessage.intro && lastUserIndex >= 0;
 
-            // otherwise paragraph with bold handling
-            const paragraph = escapeHtml(block).replace(/\*\*(.*?)\*\*/g, "<strong>$1</strong>");
-            // preserve single newlines as <br>
-            out.push(`<p>${paragraph.replace(/\n/g, "<br>")}</p>`);
+    const renderMessage = (m: ChatMessage, key: string | number, index?: number) => {
+        const isEditing = index !== undefined && index === editingIndex;
+        const canRate = index !== undefined && m.role === "ai" && !m.intro && !!m.id && !!client.sendFeedback;
+        const actions: { label: string; onClick: () => void }[] = [];
+        if (!isTyping && !handoff && index === lastUserIndex && !isEditing) {
+            actions.push({ label: strings.edit, onClick: () => setEditingIndex(index) });
+        }
+        if (canRegenerate && index === messages.length - 1) {
+            actions.push({ label: strings.regenerate, onClick: regenerate });
         }
 
-        return out.join("");
+        return (
+            <div key={key} className={["flex flex-col gap-1 max-w-[80%]", m.role === "user" ? "ml-auto items-end" : "mr-auto items-start"].join(" ")}>
+                {m.role === "agent" && (
+                    <div className="px-2 text-xs text-neutral-500 dark:text-neutral-400">{m.agentName ?? strings.transcriptAgent}</div>
+                )}
+                {m.attachments && <AttachmentList attachments={m.attachments} previews={attachments.previews} />}
+                {m.quote && (
+                    <div className="px-3 py-1 border-l-2 border-velior-primary text-xs italic text-neutral-600 dark:text-neutral-300 line-clamp-3">
+                        {m.quote}
+                    </div>
+                )}
+                {(m.text || isEditing) && (
+                    <div
+                        className={[
+                            "px-4 py-2 rounded-velior break-words text-sm leading-relaxed",
+                            isEditing ? "w-full" : "",
+                            m.role === "user"
+                                ? "bg-velior-primary text-velior-primary-text"
+                                : m.role === "agent"
+                                  ? "border-2 border-velior-primary bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100"
+                                  : "bg-neutral-200 dark:bg-neutral-700 text-neutral-900 dark:text-neutral-100",
+                        ].join(" ")}
+                    >
+                        {isEditing ? (
+                            // Enter resends, Shift+Enter adds a line, as in the composer
+                            <textarea
+                                autoFocus
+                                defaultValue={m.text}
+                                rows={m.text.split("\n").length}
+                                aria-label={strings.edit}
+                                className="block w-full bg-transparent text-velior-primary-text resize-none focus:outline-none"
+                                onKeyDown={(e) => {
+                                    if (e.nativeEvent.isComposing) return;
+                                    if (e.key === "Enter" && !e.shiftKey) {
+                                        e.preventDefault();
+                                        resendEdited(index, e.currentTarget.value);
+                                    }
+                                    if (e.key === "Escape") {
+                                        // handled here, so the popup doesn't close as well
+                                        e.preventDefault();
+                                        setEditingIndex(null);
+                                    }
+                                }}
+                                onBlur={() => setEditingIndex(null)}
+                            />
+                        ) : m.role !== "user" ? (
+                            <MarkdownContent
+                                text={m.text}
+                                copyLabel={strings.copy}
+                                copiedLabel={strings.copied}
+                                sources={m.sources}
+                                sourceLabel={strings.sourceLabel}
+                                onCite={index !== undefined ? (n) => setCitation({ index, n }) : undefined}
+                            />
+                        ) : (
+                            <div className="whitespace-pre-wrap">{m.text}</div>
+                        )}
+                    </div>
+                )}
+                {m.sources && (
+                    <SourceList
+                        sources={m.sources}
+                        strings={strings}
+                        highlighted={citation && citation.index === index ? citation.n : undefined}
+                        onCollapse={() => setCitation(null)}
+                    />
+                )}
+                {m.blocks && index !== undefined && (
+                    <MessageBlocks
+                        blocks={m.blocks}
+                        strings={strings}
+                        submitted={m.submitted}
+                        onAction={(action) => handleBlockAction(index, action)}
+                        onSubmitForm={client.submitForm ? (formId, values) => submitBlockForm(index, formId, values) : undefined}
+                    />
+                )}
+                {canRate && (
+                    <div className="px-1">
+                        <FeedbackControls
+                            feedback={m.feedback}
+                            strings={strings}
+                            failed={feedbackFailed === m.id}
+                            onRate={(rating, comment) => rateMessage(index, rating, comment)}
+                        />
+                    </div>
+                )}
+                {actions.length > 0 && (
+                    <div className="flex gap-3 px-2">
+                        {actions.map((a) => (
+                            <button
+                                key={a.label}
+                                onClick={a.onClick}
+                                className="text-xs text-neutral-500 hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-white transition"
+                            >
+                                {a.label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+        );
     };
 
     return (
-        <div className="velior-ai-chat h-full w-full flex flex-col p-3 bg-transparent text-neutral-900 dark:text-neutral-100">
+        <div
+            className={[
+                "velior-ai-chat relative h-full w-full flex flex-col p-3 bg-transparent font-velior text-neutral-900 dark:text-neutral-100",
+                isDark ? "dark" : "",
+            ].join(" ")}
+            style={themeToCssVars(resolvedTheme)}
+            data-velior-widget=""
+            onDragOver={(e) => {
+                if (!canAttach || !e.dataTransfer.types.includes("Files")) return;
+                e.preventDefault();
+                setDragging(true);
+            }}
+            onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false);
+            }}
+            onDrop={(e) => {
+                if (!canAttach) return;
+                e.preventDefault();
+                setDragging(false);
+                attachments.add(Array.from(e.dataTransfer.files));
+            }}
+        >
+            {/* Drop overlay */}
+            {dragging && (
+                <div className="absolute inset-2 z-10 rounded-velior border-2 border-dashed border-velior-primary bg-white/90 dark:bg-neutral-900/90 flex items-center justify-center text-sm pointer-events-none">
+                    {strings.dropFiles}
+                </div>
+            )}
+
+            {/* Header actions */}
+            {lastUserIndex >= 0 && (
+                <div className="flex-none flex justify-end gap-4 mb-2">
+                    <ExportMenu
+                        strings={strings}
+                        onExport={exportTranscript}
+                        onEmail={emailTranscript}
+                        defaultEmail={identity && typeof identity === "object" ? identity.email : undefined}
+                    />
+                    <button
+                        onClick={startNewConversation}
+                        className="text-xs text-neutral-500 hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-white transition"
+                    >
+                        {strings.newConversation}
+                    </button>
+                </div>
+            )}
+
+            {/* Live agent */}
+            {handoff && (
+                <div
+                    role="status"
+                    className="flex-none mb-2 px-3 py-2 rounded-lg text-xs flex items-center justify-between gap-3 bg-neutral-100 dark:bg-neutral-800"
+                >
+                    <span className="flex items-center gap-2">
+                        {agentStatus !== "connected" && <TypingIndicator />}
+                        {agentStatus === "connected"
+                            ? formatString(strings.agentConnected, { name: agentName ?? strings.transcriptAgent })
+                            : strings.agentConnecting}
+                    </span>
+                    <button className="underline whitespace-nowrap" onClick={endHandoff}>
+                        {strings.agentEnd}
+                    </button>
+                </div>
+            )}
+            {!handoff && handoffEnded && (
+                <div
+                    role="status"
+                    className="flex-none mb-2 px-3 py-2 rounded-lg text-xs flex items-center justify-between gap-3 bg-neutral-100 dark:bg-neutral-800"
+                >
+                    {strings.agentEnded}
+                    <button className="underline" onClick={() => setHandoffEnded(false)}>
+                        {strings.dismiss}
+                    </button>
+                </div>
+            )}
+
             {/* Messages */}
             <div
                 ref={messagesRef}
@@ -230,55 +835,53 @@ export function ChatWidget({ apiUrl, configCode, initialMessage, initialFollowup
 
                 <div className="flex flex-col mt-auto gap-4">
 
-                    {messages.map((m, i) => (
-                        <div
-                            key={i}
-                            className={[
-                                "px-4 py-2 rounded-2xl max-w-[80%] break-words text-sm leading-relaxed",
-                                m.role === "user"
-                                    ? "ml-auto bg-blue-600 text-white"
-                                    : "mr-auto bg-neutral-200 dark:bg-neutral-700 text-neutral-900 dark:text-neutral-100",
-                            ].join(" ")}
-                        >
-                            {m.role === "ai" ? (
-                                <div
-                                    className="prose prose-sm dark:prose-invert max-w-none"
-                                    dangerouslySetInnerHTML={{ __html: formatMessageToHtml(m.text) }}
-                                />
-                            ) : (
-                                <div>{m.text}</div>
-                            )}
-                        </div>
-                    ))}
+                    {/* busy while streaming so screen readers announce the finished reply once, not every token */}
+                    <div role="log" aria-live="polite" aria-busy={isTyping} aria-label={strings.messagesLabel} className="flex flex-col gap-4">
+                        {messages.map((m, i) => renderMessage(m, i, i))}
 
-                    {/* Typing indicator */}
-                    {isTyping && (
-                        <div className="mr-auto px-4 py-2 rounded-2xl bg-neutral-200 dark:bg-neutral-800">
+                        {/* Streaming reply */}
+                        {pendingReply !== null && renderMessage({ role: "ai", text: pendingReply }, "pending")}
+                    </div>
+
+                    <div role="status" className="sr-only">
+                        {isTyping
+                            ? strings.typing
+                            : agentTyping
+                              ? formatString(strings.agentTyping, { name: agentName ?? strings.transcriptAgent })
+                              : ""}
+                    </div>
+
+                    {/* Agent typing */}
+                    {agentTyping && (
+                        <div className="mr-auto px-4 py-3 rounded-velior border-2 border-velior-primary bg-white dark:bg-neutral-900">
                             <TypingIndicator />
                         </div>
                     )}
 
+                    {/* Typing indicator / stop generation */}
+                    {isTyping && (
+                        <button
+                            onClick={stop}
+                            className="
+                mr-auto px-4 py-2 rounded-velior flex items-center gap-3
+                text-xs text-neutral-700 dark:text-neutral-300
+                bg-neutral-200 dark:bg-neutral-800
+                hover:bg-neutral-300 dark:hover:bg-neutral-700
+                transition
+              "
+                        >
+                            {pendingReply === null && <TypingIndicator />}
+                            <span className="flex items-center gap-1.5">
+                                <span className="w-2.5 h-2.5 rounded-sm bg-current" />
+                                {strings.stop}
+                            </span>
+                        </button>
+                    )}
+
                     {/* Follow-ups */}
-                    {followups.length > 0 && !isTyping && (
+                    {followups.length > 0 && !isTyping && !handoff && (
                         <div className="mr-auto">
-                            <div className="flex flex-wrap gap-2">
-                                {followups.map((f, idx) => (
-                                    <button
-                                        key={idx}
-                                        onClick={() => handleFollowupClick(f)}
-                                        className="
-                    text-xs px-3 py-1.5 rounded-full
-                    border border-neutral-300 dark:border-neutral-700
-                    bg-white dark:bg-neutral-900
-                    text-neutral-700 dark:text-neutral-300
-                    hover:bg-neutral-100 dark:hover:bg-neutral-800
-                    transition
-                  "
-                                    >
-                                        {f}
-                                    </button>
-                                ))}
-                            </div>
+                            <FollowupChips followups={followups} label={strings.suggestions} onSelect={handleFollowupClick} />
                         </div>
                     )}
 
@@ -288,36 +891,103 @@ export function ChatWidget({ apiUrl, configCode, initialMessage, initialFollowup
             {/* Rate limit / error */}
             {rateLimitMessage && (
                 <div className="mb-3 px-3 py-2 rounded-lg bg-red-600 text-white flex items-start justify-between gap-3">
-                    <div className="text-sm">{rateLimitMessage}</div>
-                    <button
-                        className="text-white/90 text-sm underline"
-                        onClick={() => setRateLimitMessage(null)}
-                    >
-                        Dismiss
-                    </button>
+                    <div className="text-sm">
+                        {rateLimitMessage}
+                        {retryAt !== null && (
+                            <div className="mt-1 text-white/90">
+                                {formatString(strings.retryCountdown, { seconds: retrySeconds })}
+                            </div>
+                        )}
+                    </div>
+                    {retryAt === null && (
+                        <button
+                            className="text-white/90 text-sm underline"
+                            onClick={() => setRateLimitMessage(null)}
+                        >
+                            {strings.dismiss}
+                        </button>
+                    )}
                 </div>
             )}
 
             {/* Input */}
             <div className="flex-none">
-                <input
-                    className="
-          w-full px-4 py-2 rounded-full text-sm
-          border border-neutral-300 dark:border-neutral-700
-          bg-white dark:bg-neutral-900
-          text-neutral-900 dark:text-neutral-100
-          placeholder-neutral-400
-          focus:outline-none focus:ring-2 focus:ring-blue-500
-        "
-                    placeholder="Napište svou zprávu…"
-                    disabled={isTyping || !!rateLimitMessage}
-                    onKeyDown={(e) => {
-                        if (e.key === "Enter" && e.currentTarget.value && !isTyping) {
-                            send(e.currentTarget.value);
-                            e.currentTarget.value = "";
+                {!handoff && <AttachmentTray items={attachments.items} strings={strings} onRemove={attachments.remove} />}
+                {attachments.rejection && (
+                    <div className="mb-2 px-1 text-xs text-red-600 dark:text-red-400 flex justify-between gap-3">
+                        {attachments.rejection}
+                        <button className="underline" onClick={attachments.dismissRejection}>
+                            {strings.dismiss}
+                        </button>
+                    </div>
+                )}
+                {selection && !handoff && (
+                    <div className="mb-2 flex items-start gap-2 px-3 py-2 rounded-lg text-xs bg-neutral-100 dark:bg-neutral-800">
+                        <div className="min-w-0 flex-1">
+                            <div className="font-semibold">{strings.askingAbout}</div>
+                            <div className="italic line-clamp-2">{selection}</div>
+                        </div>
+                        <button
+                            className="flex-none w-5 h-5 rounded-full text-neutral-500 hover:text-neutral-900 dark:hover:text-white"
+                            aria-label={strings.removeSelection}
+                            title={strings.removeSelection}
+                            onClick={() => setSelection(null)}
+                        >
+                            ×
+                        </button>
+                    </div>
+                )}
+                <Composer
+                    strings={strings}
+                    disabled={isTyping || retryAt !== null}
+                    pending={!handoff && attachments.uploading}
+                    hasAttachments={!handoff && attachments.items.some((i) => i.attachment)}
+                    history={userHistory}
+                    maxLength={maxMessageLength ?? serverConfig?.maxMessageLength}
+                    onSubmit={async (text) => {
+                        // during a handoff the quote and files stay put for the bot
+                        const quote = handoff ? undefined : (selection ?? undefined);
+                        if (quote) setSelection(null);
+                        const ok = await send(text, handoff ? undefined : attachments.take(), quote, true);
+                        // like the draft, the quote and the files come back when sending failed
+                        if (!ok && !handoff) {
+                            if (quote) setSelection((s) => s ?? quote);
+                            attachments.restore();
                         }
+                        return ok;
                     }}
-                />
+                    onPaste={(e) => {
+                        const images = Array.from(e.clipboardData.files).filter((f) => f.type.startsWith("image/"));
+                        if (images.length === 0 || !canAttach) return;
+                        e.preventDefault();
+                        attachments.add(images);
+                    }}
+                >
+                    {canAttach && (
+                        <>
+                            <button
+                                className="flex-none p-2 rounded-full text-neutral-500 hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-white transition disabled:opacity-50"
+                                aria-label={strings.attach}
+                                title={strings.attach}
+                                disabled={retryAt !== null}
+                                onClick={() => fileInputRef.current?.click()}
+                            >
+                                <PaperclipIcon />
+                            </button>
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                multiple
+                                hidden
+                                accept={attachmentTypes.join(",")}
+                                onChange={(e) => {
+                                    attachments.add(Array.from(e.currentTarget.files ?? []));
+                                    e.currentTarget.value = "";
+                                }}
+                            />
+                        </>
+                    )}
+                </Composer>
             </div>
         </div>
     );
@@ -325,11 +995,31 @@ export function ChatWidget({ apiUrl, configCode, initialMessage, initialFollowup
 }
 function TypingIndicator() {
     return (
-        <div className="flex items-center gap-1">
-            <span className="w-2 h-2 rounded-full bg-neutral-500 animate-bounce [animation-delay:-0.3s]" />
-            <span className="w-2 h-2 rounded-full bg-neutral-500 animate-bounce [animation-delay:-0.15s]" />
-            <span className="w-2 h-2 rounded-full bg-neutral-500 animate-bounce" />
+        <div className="flex items-center gap-1" aria-hidden="true">
+            <span className="w-2 h-2 rounded-full bg-neutral-500 motion-safe:animate-bounce [animation-delay:-0.3s]" />
+            <span className="w-2 h-2 rounded-full bg-neutral-500 motion-safe:animate-bounce [animation-delay:-0.15s]" />
+            <span className="w-2 h-2 rounded-full bg-neutral-500 motion-safe:animate-bounce" />
         </div>
     );
 }
 
+function prefersReducedMotion() {
+    return typeof matchMedia === "function" && matchMedia("(prefers-reduced-motion: reduce)").matches;
+}
+
+// validated blocks and sources of a reply, left out when empty so persisted messages stay small
+function replyExtras(res: Partial<ChatResponse>): Pick<ChatMessage, "blocks" | "sources"> {
+    const blocks = parseBlocks(res.blocks);
+    const sources = parseSources(res.sources);
+    return {
+        blocks: blocks.length > 0 ? blocks : undefined,
+        sources: sources.length > 0 ? sources : undefined,
+    };
+}
+
+function lastIndexOfRole(messages: ChatMessage[], role: ChatMessage["role"]) {
+    for (let i = messages.length - 1; i >= 0; i--) {
+        if (messages[i].role === role) return i;
+    }
+    return -1;
+}
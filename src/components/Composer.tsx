@@ -0,0 +1,134 @@
+import { useLayoutEffect, useRef, useState, type ClipboardEvent, type ReactNode } from "react";
+import { formatString, type UiStrings } from "../i18n/strings";
+
+type Props = {
+    strings: UiStrings;
+    disabled: boolean;
+    /** true while attachments are still uploading; sending waits for them */
+    pending?: boolean;
+    /** allows sending without text, e.g. when files are attached */
+    hasAttachments?: boolean;
+    /** previously sent user messages, oldest first, recalled with Up/Down */
+    history: string[];
+    /** longest message the backend accepts; 0 or undefined means no limit */
+    maxLength?: number;
+    /** resolves false when the send failed, so the draft is put back */
+    onSubmit: (text: string) => Promise<boolean> | boolean;
+    onPaste?: (e: ClipboardEvent<HTMLTextAreaElement>) => void;
+    /** extra buttons rendered before the textarea (attach) */
+    children?: ReactNode;
+};
+
+// the counter appears once the draft uses this share of the limit
+const COUNTER_THRESHOLD = 0.8;
+
+/** Auto-growing message box: Enter sends, Shift+Enter adds a line, Up/Down walk the sent history. */
+export function Composer({ strings, disabled, pending = false, hasAttachments = false, history, maxLength, onSubmit, onPaste, children }: Props) {
+    const [draft, setDraft] = useState("");
+    // position in `history` while recalling; null when editing the own draft
+    const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+    // the unsent draft, restored when Down walks past the newest history entry
+    const [savedDraft, setSavedDraft] = useState("");
+    const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+
+    const tooLong = !!maxLength && draft.length > maxLength;
+    const canSend = !disabled && !pending && !tooLong && (draft.trim() !== "" || hasAttachments);
+
+    useLayoutEffect(() => {
+        const el = textareaRef.current;
+        if (!el) return;
+        el.style.height = "auto";
+        el.style.height = `${el.scrollHeight}px`;
+    }, [draft]);
+
+    const submit = async () => {
+        if (!canSend) return;
+        const text = draft;
+        setDraft("");
+        setHistoryIndex(null);
+        const ok = await onSubmit(text);
+        // don't clobber something typed while the request was running
+        if (!ok) setDraft((d) => d || text);
+    };
+
+    const recall = (index: number | null) => {
+        if (historyIndex === null) setSavedDraft(draft);
+        setHistoryIndex(index);
+        setDraft(index === null ? savedDraft : history[index]);
+    };
+
+    return (
+        <div className="flex flex-col gap-1">
+            <div className="flex items-end gap-2">
+                {children}
+                <textarea
+                    ref={textareaRef}
+                    rows={1}
+                    className={[
+                        "flex-1 min-w-0 max-h-40 px-4 py-2 rounded-velior text-sm resize-none overflow-y-auto",
+                        "border bg-white dark:bg-neutral-900",
+                        "text-neutral-900 dark:text-neutral-100 placeholder-neutral-400",
+                        "focus:outline-none focus:ring-2",
+                        tooLong
+                            ? "border-red-500 focus:ring-red-500"
+                            : "border-neutral-300 dark:border-neutral-700 focus:ring-velior-primary",
+                    ].join(" ")}
+                    placeholder={strings.placeholder}
+                    aria-label={strings.messageLabel}
+                    aria-invalid={tooLong}
+                    disabled={disabled}
+                    value={draft}
+                    onChange={(e) => {
+                        setDraft(e.target.value);
+                        setHistoryIndex(null);
+                    }}
+                    onPaste={onPaste}
+                    onKeyDown={(e) => {
+                        if (e.nativeEvent.isComposing) return;
+                        if (e.key === "Enter" && !e.shiftKey) {
+                            e.preventDefault();
+                            void submit();
+                            return;
+                        }
+                        const el = e.currentTarget;
+                        const atStart = el.selectionStart === 0 && el.selectionEnd === 0;
+                        const atEnd = el.selectionStart === el.value.length;
+                        if (e.key === "ArrowUp" && atStart && history.length > 0) {
+                            e.preventDefault();
+                            recall(historyIndex === null ? history.length - 1 : Math.max(0, historyIndex - 1));
+                        } else if (e.key === "ArrowDown" && atEnd && historyIndex !== null) {
+                            e.preventDefault();
+                            recall(historyIndex < history.length - 1 ? historyIndex + 1 : null);
+                        }
+                    }}
+                />
+                <button
+                    className="flex-none p-2 rounded-full bg-velior-primary text-velior-primary-text disabled:opacity-50 transition"
+                    aria-label={strings.send}
+                    title={strings.send}
+                    disabled={!canSend}
+                    onClick={() => void submit()}
+                >
+                    <SendIcon />
+                </button>
+            </div>
+            {!!maxLength && draft.length >= maxLength * COUNTER_THRESHOLD && (
+                <div
+                    className={["px-2 text-xs text-right", tooLong ? "text-red-600 dark:text-red-400" : "text-neutral-500 dark:text-neutral-400"].join(" ")}
+                    aria-live="polite"
+                >
+                    {tooLong && <span className="mr-2">{strings.messageTooLong}</span>}
+                    {formatString(strings.characterCount, { count: draft.length, max: maxLength })}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function SendIcon() {
+    return (
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" className="w-5 h-5 fill-current" aria-hidden="true">
+            <path d="M2.01 21 23 12 2.01 3 2 10l15 2-15 2z" />
+        </svg>
+    );
+}
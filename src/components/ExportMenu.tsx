@@ -0,0 +1,189 @@
+import { useEffect, useRef, useState, type KeyboardEvent } from "react";
+import type { UiStrings } from "../i18n/strings";
+
+export type ExportFormat = "markdown" | "json" | "print";
+
+type Props = {
+    strings: UiStrings;
+    onExport: (format: ExportFormat) => void;
+    /** shows "Email me this conversation" when set */
+    onEmail?: (email: string) => Promise<void>;
+    /** prefilled address, e.g. from the signed identity */
+    defaultEmail?: string;
+};
+
+/**
+ * Header menu for downloading, printing or emailing the transcript. Arrow
+ * keys, Home and End move between items; Escape closes it.
+ */
+export function ExportMenu({ strings, onExport, onEmail, defaultEmail = "" }: Props) {
+    const [open, setOpen] = useState(false);
+    const [emailOpen, setEmailOpen] = useState(false);
+    const [email, setEmail] = useState(defaultEmail);
+    const [status, setStatus] = useState<"idle" | "sending" | "sent" | "failed">("idle");
+    const containerRef = useRef<HTMLDivElement | null>(null);
+    const triggerRef = useRef<HTMLButtonElement | null>(null);
+    const itemsRef = useRef<(HTMLButtonElement | null)[]>([]);
+
+    // close on clicks outside; composedPath sees through the shadow root when isolated
+    useEffect(() => {
+        if (!open) return;
+        const onPointerDown = (e: PointerEvent) => {
+            if (containerRef.current && !e.composedPath().includes(containerRef.current)) setOpen(false);
+        };
+        document.addEventListener("pointerdown", onPointerDown);
+        return () => document.removeEventListener("pointerdown", onPointerDown);
+    }, [open]);
+
+    const choose = (format: ExportFormat) => {
+        setOpen(false);
+        onExport(format);
+    };
+
+    const items: { label: string; onSelect: () => void }[] = [
+        { label: strings.exportMarkdown, onSelect: () => choose("markdown") },
+        { label: strings.exportJson, onSelect: () => choose("json") },
+        { label: strings.exportPrint, onSelect: () => choose("print") },
+    ];
+    if (onEmail) {
+        items.push({
+            label: strings.emailTranscript,
+            onSelect: () => {
+                setOpen(false);
+                setStatus("idle");
+                setEmailOpen(true);
+            },
+        });
+    }
+
+    const onMenuKeyDown = (e: KeyboardEvent) => {
+        const index = itemsRef.current.findIndex((el) => el === e.target);
+        let next: number;
+        switch (e.key) {
+            case "ArrowDown":
+                next = (index + 1) % items.length;
+                break;
+            case "ArrowUp":
+                next = index <= 0 ? items.length - 1 : index - 1;
+                break;
+            case "Home":
+                next = 0;
+                break;
+            case "End":
+                next = items.length - 1;
+                break;
+            case "Escape":
+                e.preventDefault();
+                setOpen(false);
+                triggerRef.current?.focus();
+                return;
+            case "Tab":
+                setOpen(false);
+                return;
+            default:
+                return;
+        }
+        e.preventDefault();
+        itemsRef.current[next]?.focus();
+    };
+
+    const sendEmail = async () => {
+        if (!onEmail || !email.trim()) return;
+        setStatus("sending");
+        try {
+            await onEmail(email.trim());
+            setStatus("sent");
+        } catch (err) {
+            console.warn("VeliorAiChat: failed to email transcript", err);
+            setStatus("failed");
+        }
+    };
+
+    const itemClass =
+        "w-full text-left px-3 py-2 text-xs hover:bg-neutral-100 dark:hover:bg-neutral-800 focus:bg-neutral-100 dark:focus:bg-neutral-800 focus:outline-none";
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                ref={triggerRef}
+                aria-haspopup="menu"
+                aria-expanded={open}
+                onClick={() => setOpen((o) => !o)}
+                className="text-xs text-neutral-500 hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-white transition"
+            >
+                {strings.exportTranscript}
+            </button>
+
+            {open && (
+                <div
+                    role="menu"
+                    className="absolute right-0 top-full mt-1 z-20 min-w-[12rem] py-1 rounded-lg shadow-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900"
+                    onKeyDown={onMenuKeyDown}
+                >
+                    {items.map((item, idx) => (
+                        <button
+                            key={item.label}
+                            ref={(el) => {
+                                itemsRef.current[idx] = el;
+                            }}
+                            role="menuitem"
+                            tabIndex={-1}
+                            autoFocus={idx === 0}
+                            className={itemClass}
+                            onClick={item.onSelect}
+                        >
+                            {item.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {emailOpen && (
+                <div className="absolute right-0 top-full mt-1 z-20 w-64 p-3 rounded-lg shadow-lg border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 flex flex-col gap-2">
+                    {status === "sent" ? (
+                        <div className="text-xs" role="status">
+                            {strings.emailSent}
+                        </div>
+                    ) : (
+                        <form
+                            className="flex gap-2"
+                            onSubmit={(e) => {
+                                e.preventDefault();
+                                void sendEmail();
+                            }}
+                        >
+                            <input
+                                type="email"
+                                required
+                                autoFocus
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                placeholder={strings.emailPlaceholder}
+                                aria-label={strings.emailPlaceholder}
+                                className="flex-1 min-w-0 px-2 py-1 rounded text-xs border border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 focus:outline-none focus:ring-2 focus:ring-velior-primary"
+                            />
+                            <button
+                                type="submit"
+                                disabled={status === "sending"}
+                                className="px-3 py-1 rounded-full text-xs bg-velior-primary text-velior-primary-text disabled:opacity-50"
+                            >
+                                {strings.emailSend}
+                            </button>
+                        </form>
+                    )}
+                    {status === "failed" && (
+                        <div className="text-xs text-red-600 dark:text-red-400" role="alert">
+                            {strings.emailFailed}
+                        </div>
+                    )}
+                    <button
+                        className="self-end text-xs text-neutral-500 hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-white"
+                        onClick={() => setEmailOpen(false)}
+                    >
+                        {strings.dismiss}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import type { FeedbackRating } from "../api/ChatClient";
+import type { UiStrings } from "../i18n/strings";
+import type { ChatMessage } from "../types";
+
+type Props = {
+    feedback: ChatMessage["feedback"];
+    strings: UiStrings;
+    /** the last rating couldn't be sent and was rolled back */
+    failed?: boolean;
+    onRate: (rating: FeedbackRating, comment?: string) => void;
+};
+
+// Thumbs up/down under an AI reply, with an optional free-text reason after rating.
+export function FeedbackControls({ feedback, strings, failed, onRate }: Props) {
+    const [commentFor, setCommentFor] = useState<FeedbackRating | null>(null);
+    const [comment, setComment] = useState("");
+
+    const rate = (rating: FeedbackRating) => {
+        if (feedback?.rating === rating) return;
+        onRate(rating);
+        setComment("");
+        setCommentFor(rating);
+    };
+
+    const submitComment = () => {
+        if (commentFor && comment.trim()) onRate(commentFor, comment.trim());
+        setCommentFor(null);
+    };
+
+    const buttonClass = (rating: FeedbackRating) =>
+        [
+            "p-1 rounded transition",
+            feedback?.rating === rating
+                ? "text-velior-primary"
+                : "text-neutral-400 hover:text-neutral-700 dark:text-neutral-500 dark:hover:text-neutral-200",
+        ].join(" ");
+
+    return (
+        <div className="flex flex-col gap-1">
+            <div className="flex items-center gap-1">
+                <button
+                    className={buttonClass("up")}
+                    aria-label={strings.feedbackUp}
+                    aria-pressed={feedback?.rating === "up"}
+                    title={strings.feedbackUp}
+                    onClick={() => rate("up")}
+                >
+                    <ThumbIcon />
+                </button>
+                <button
+                    className={buttonClass("down")}
+                    aria-label={strings.feedbackDown}
+                    aria-pressed={feedback?.rating === "down"}
+                    title={strings.feedbackDown}
+                    onClick={() => rate("down")}
+                >
+                    <ThumbIcon down />
+                </button>
+                {failed && (
+                    <span className="text-xs text-red-600 dark:text-red-400" role="alert">
+                        {strings.feedbackFailed}
+                    </span>
+                )}
+                {!failed && feedback && !commentFor && (
+                    <span className="text-xs text-neutral-400 dark:text-neutral-500">{strings.feedbackThanks}</span>
+                )}
+            </div>
+
+            {commentFor && (
+                <div className="flex flex-col gap-2 w-64 max-w-full">
+                    <textarea
+                        autoFocus
+                        rows={2}
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                        placeholder={strings.feedbackPlaceholder}
+                        className="
+              w-full px-3 py-2 rounded-lg text-xs resize-none
+              border border-neutral-300 dark:border-neutral-700
+              bg-white dark:bg-neutral-900
+              text-neutral-900 dark:text-neutral-100
+              focus:outline-none focus:ring-2 focus:ring-velior-primary
+            "
+                    />
+                    <div className="flex justify-end gap-3 text-xs">
+                        <button
+                            className="text-neutral-500 hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-white transition"
+                            onClick={() => setCommentFor(null)}
+                        >
+                            {strings.feedbackSkip}
+                        </button>
+                        <button
+                            className="px-3 py-1 rounded-full bg-velior-primary text-velior-primary-text disabled:opacity-50"
+                            disabled={!comment.trim()}
+                            onClick={submitComment}
+                        >
+                            {strings.feedbackSubmit}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+function ThumbIcon({ down = false }: { down?: boolean }) {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            viewBox="0 0 24 24"
+            className={["w-4 h-4 fill-current", down ? "rotate-180" : ""].join(" ")}
+            aria-hidden="true"
+        >
+            <path d="M2 21h4V9H2v12zm20-11c0-1.1-.9-2-2-2h-6.31l.95-4.57.03-.32c0-.41-.17-.79-.44-1.06L13.17 1 6.59 7.59C6.22 7.95 6 8.45 6 9v10c0 1.1.9 2 2 2h9c.83 0 1.54-.5 1.84-1.22l3.02-7.05c.09-.23.14-.47.14-.73v-2z" />
+        </svg>
+    );
+}
@@ -0,0 +1,69 @@
+import { useRef, useState, type KeyboardEvent } from "react";
+
+type Props = {
+    followups: string[];
+    label: string;
+    onSelect: (text: string) => void;
+};
+
+/**
+ * Suggested questions as a single tab stop; arrow keys, Home and End move
+ * between chips (roving tabindex), Enter/Space picks one.
+ */
+export function FollowupChips({ followups, label, onSelect }: Props) {
+    const [active, setActive] = useState(0);
+    const buttonsRef = useRef<(HTMLButtonElement | null)[]>([]);
+    const current = Math.min(active, followups.length - 1);
+
+    const move = (e: KeyboardEvent, index: number) => {
+        let next: number;
+        switch (e.key) {
+            case "ArrowRight":
+            case "ArrowDown":
+                next = (index + 1) % followups.length;
+                break;
+            case "ArrowLeft":
+            case "ArrowUp":
+                next = (index - 1 + followups.length) % followups.length;
+                break;
+            case "Home":
+                next = 0;
+                break;
+            case "End":
+                next = followups.length - 1;
+                break;
+            default:
+                return;
+        }
+        e.preventDefault();
+        setActive(next);
+        buttonsRef.current[next]?.focus();
+    };
+
+    return (
+        <div role="group" aria-label={label} className="flex flex-wrap gap-2">
+            {followups.map((f, idx) => (
+                <button
+                    key={idx}
+                    ref={(el) => {
+                        buttonsRef.current[idx] = el;
+                    }}
+                    tabIndex={idx === current ? 0 : -1}
+                    onClick={() => onSelect(f)}
+                    onKeyDown={(e) => move(e, idx)}
+                    onFocus={() => setActive(idx)}
+                    className="
+                    text-xs px-3 py-1.5 rounded-full
+                    border border-neutral-300 dark:border-neutral-700
+                    bg-white dark:bg-neutral-900
+                    text-neutral-700 dark:text-neutral-300
+                    hover:bg-neutral-100 dark:hover:bg-neutral-800
+                    transition
+                  "
+                >
+                    {f}
+                </button>
+            ))}
+        </div>
+    );
+}
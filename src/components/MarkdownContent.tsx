@@ -0,0 +1,71 @@
+import { memo, useLayoutEffect, useRef, useState, type SyntheticEvent } from "react";
+import type { ChatSource } from "../api/blocks";
+import { citationAt, handleCopyClick, renderMarkdown } from "../markdown/renderMarkdown";
+
+// memoized so earlier bubbles aren't re-parsed on every streamed token
+type Props = {
+    text: string;
+    copyLabel?: string;
+    copiedLabel?: string;
+    /** sources the `[n]` markers in `text` refer to */
+    sources?: ChatSource[];
+    /** accessible name of a marker, e.g. "Source {n}" */
+    sourceLabel?: string;
+    /** a marker was clicked */
+    onCite?: (n: number) => void;
+};
+
+type Preview = { n: number; top: number; left: number };
+
+const PREVIEW_WIDTH = 256;
+
+export const MarkdownContent = memo(function MarkdownContent({ text, copyLabel, copiedLabel, sources, sourceLabel, onCite }: Props) {
+    const labels = { copy: copyLabel, copied: copiedLabel };
+    const contentRef = useRef<HTMLDivElement | null>(null);
+    // the sanitized nodes are inserted directly; assigning an HTML string would throw on
+    // pages that enforce Trusted Types
+    useLayoutEffect(() => {
+        contentRef.current?.replaceChildren(
+            renderMarkdown(text, { copy: copyLabel, copied: copiedLabel, source: sourceLabel }, sources)
+        );
+    }, [text, copyLabel, copiedLabel, sourceLabel, sources]);
+    const [preview, setPreview] = useState<Preview | null>(null);
+    const previewSource = preview ? sources?.[preview.n - 1] : undefined;
+
+    // the snippet box sits under the hovered or focused marker, kept inside the bubble horizontally
+    const showPreview = (e: SyntheticEvent<HTMLDivElement>) => {
+        const n = citationAt(e.target);
+        if (n === null || !(e.target instanceof Element)) return;
+        const box = e.currentTarget.getBoundingClientRect();
+        const marker = e.target.getBoundingClientRect();
+        const left = Math.max(0, Math.min(marker.left - box.left, box.width - PREVIEW_WIDTH));
+        setPreview({ n, top: marker.bottom - box.top + 4, left });
+    };
+    const hidePreview = (e: SyntheticEvent) => {
+        if (citationAt(e.target) !== null) setPreview(null);
+    };
+
+    return (
+        <div className="relative" onMouseOver={showPreview} onMouseOut={hidePreview} onFocus={showPreview} onBlur={hidePreview}>
+            <div
+                ref={contentRef}
+                className="prose prose-sm dark:prose-invert max-w-none"
+                onClick={(e) => {
+                    if (handleCopyClick(e.target, labels)) return;
+                    const n = citationAt(e.target);
+                    if (n !== null) onCite?.(n);
+                }}
+            />
+            {preview && previewSource && (
+                <div
+                    role="tooltip"
+                    className="absolute z-20 max-w-full p-2 rounded-lg shadow-lg text-xs border border-neutral-200 dark:border-neutral-700 bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100 pointer-events-none"
+                    style={{ top: preview.top, left: preview.left, width: PREVIEW_WIDTH }}
+                >
+                    <div className="font-semibold">{previewSource.title}</div>
+                    {previewSource.snippet && <div className="mt-1 line-clamp-4">{previewSource.snippet}</div>}
+                </div>
+            )}
+        </div>
+    );
+});
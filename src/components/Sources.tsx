@@ -0,0 +1,84 @@
+import { useEffect, useRef, useState } from "react";
+import type { ChatSource } from "../api/blocks";
+import type { UiStrings } from "../i18n/strings";
+
+type Props = {
+    sources: ChatSource[];
+    strings: UiStrings;
+    /** number of the source whose marker was clicked; expands the list and focuses it */
+    highlighted?: number;
+    onCollapse?: () => void;
+};
+
+/** Collapsible footnote list under an AI reply */
+export function SourceList({ sources, strings, highlighted, onCollapse }: Props) {
+    const [open, setOpen] = useState(false);
+    const itemsRef = useRef<(HTMLLIElement | null)[]>([]);
+    const expanded = open || highlighted !== undefined;
+
+    useEffect(() => {
+        if (highlighted !== undefined) itemsRef.current[highlighted - 1]?.focus();
+    }, [highlighted]);
+
+    const toggle = () => {
+        if (expanded) {
+            setOpen(false);
+            onCollapse?.();
+        } else {
+            setOpen(true);
+        }
+    };
+
+    return (
+        <div className="px-2 text-xs w-full">
+            <button
+                aria-expanded={expanded}
+                onClick={toggle}
+                className="flex items-center gap-1 text-neutral-500 hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-white transition"
+            >
+                <span aria-hidden="true" className={["inline-block transition-transform", expanded ? "rotate-90" : ""].join(" ")}>
+                    ›
+                </span>
+                {strings.sourcesTitle} ({sources.length})
+            </button>
+            {expanded && (
+                <ol className="mt-1 flex flex-col gap-1">
+                    {sources.map((s, i) => (
+                        <li
+                            key={i}
+                            ref={(el) => {
+                                itemsRef.current[i] = el;
+                            }}
+                            tabIndex={-1}
+                            className={[
+                                "flex gap-2 p-1.5 rounded focus:outline-none",
+                                highlighted === i + 1 ? "bg-neutral-200 dark:bg-neutral-700" : "",
+                            ].join(" ")}
+                        >
+                            <span className="flex-none font-semibold">{i + 1}.</span>
+                            <div className="min-w-0">
+                                {s.url ? (
+                                    <a href={s.url} target="_blank" rel="noopener noreferrer" className="font-medium hover:underline">
+                                        {s.title}
+                                    </a>
+                                ) : (
+                                    <span className="font-medium">{s.title}</span>
+                                )}
+                                {s.url && <div className="truncate text-neutral-500 dark:text-neutral-400">{hostOf(s.url)}</div>}
+                                {s.snippet && <div className="text-neutral-600 dark:text-neutral-300 line-clamp-2">{s.snippet}</div>}
+                            </div>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+}
+
+function hostOf(url: string) {
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return url;
+    }
+}
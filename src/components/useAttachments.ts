@@ -0,0 +1,177 @@
+import { useEffect, useRef, useState } from "react";
+import { isAbortError, type ChatAttachment } from "../api/ChatClient";
+import type { ChatTransport } from "../api/transport";
+import { formatString, type UiStrings } from "../i18n/strings";
+
+export type AttachmentLimits = {
+    /** Files per message; 0 turns attachments off */
+    maxFiles: number;
+    /** Bytes per file */
+    maxSize: number;
+    /** MIME types ("image/png"), wildcards ("image/*") or extensions (".pdf") */
+    accept: string[];
+};
+
+/** A file picked in the composer, uploading or uploaded */
+export type PendingAttachment = {
+    key: number;
+    file: File;
+    /** local object URL for image thumbnails before the server has one */
+    previewUrl?: string;
+    /** 0–1 */
+    progress: number;
+    attachment?: ChatAttachment;
+    error?: string;
+};
+
+export function matchesFileType(file: File, accept: string[]): boolean {
+    const type = file.type.toLowerCase();
+    const name = file.name.toLowerCase();
+    return accept.some((pattern) => {
+        const p = pattern.trim().toLowerCase();
+        if (p.startsWith(".")) return name.endsWith(p);
+        if (p.endsWith("/*")) return type.startsWith(p.slice(0, -1));
+        return type === p;
+    });
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} kB`;
+    return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+}
+
+/**
+ * Composer attachments: validates picked files against `limits`, uploads them
+ * right away through the transport and hands the server references to `take()`
+ * once the message is sent.
+ */
+export function useAttachments(client: ChatTransport, configCode: string, limits: AttachmentLimits, strings: UiStrings) {
+    const [items, setItems] = useState<PendingAttachment[]>([]);
+    const [rejection, setRejection] = useState<string | null>(null);
+    // local previews of sent images by attachment id, for bubbles when the server returns no url
+    const [previews, setPreviews] = useState<Record<string, string>>({});
+    const nextKeyRef = useRef(0);
+    const controllersRef = useRef(new Map<number, AbortController>());
+    const objectUrlsRef = useRef(new Set<string>());
+    // files handed out by the last take(), so a failed send can put them back
+    const takenRef = useRef<PendingAttachment[]>([]);
+
+    const enabled = !!client.uploadAttachment && limits.maxFiles > 0;
+
+    useEffect(() => {
+        const controllers = controllersRef.current;
+        const objectUrls = objectUrlsRef.current;
+        return () => {
+            controllers.forEach((c) => c.abort());
+            objectUrls.forEach((url) => URL.revokeObjectURL(url));
+        };
+    }, []);
+
+    const update = (key: number, patch: Partial<PendingAttachment>) =>
+        setItems((list) => list.map((item) => (item.key === key ? { ...item, ...patch } : item)));
+
+    const upload = (item: PendingAttachment) => {
+        const controller = new AbortController();
+        controllersRef.current.set(item.key, controller);
+        client
+            .uploadAttachment!(item.file, configCode, {
+                signal: controller.signal,
+                onProgress: (loaded, total) => update(item.key, { progress: total ? loaded / total : 0 }),
+            })
+            .then((attachment) => update(item.key, { attachment, progress: 1 }))
+            .catch((err: unknown) => {
+                if (isAbortError(err)) return;
+                console.warn("VeliorAiChat: attachment upload failed", err);
+                update(item.key, { error: strings.attachmentUploadFailed });
+            })
+            .finally(() => controllersRef.current.delete(item.key));
+    };
+
+    const add = (files: File[]) => {
+        if (!enabled || files.length === 0) return;
+        const accepted: PendingAttachment[] = [];
+        let problem: string | null = null;
+
+        for (const file of files) {
+            if (items.length + accepted.length >= limits.maxFiles) {
+                problem = formatString(strings.tooManyAttachments, { max: limits.maxFiles });
+                break;
+            }
+            if (!matchesFileType(file, limits.accept)) {
+                problem = formatString(strings.attachmentTypeNotAllowed, { name: file.name });
+                continue;
+            }
+            if (file.size > limits.maxSize) {
+                problem = formatString(strings.attachmentTooLarge, { name: file.name, max: formatBytes(limits.maxSize) });
+                continue;
+            }
+            let previewUrl: string | undefined;
+            if (file.type.startsWith("image/")) {
+                previewUrl = URL.createObjectURL(file);
+                objectUrlsRef.current.add(previewUrl);
+            }
+            accepted.push({ key: nextKeyRef.current++, file, previewUrl, progress: 0 });
+        }
+
+        setRejection(problem);
+        if (accepted.length === 0) return;
+        setItems((list) => [...list, ...accepted]);
+        accepted.forEach(upload);
+    };
+
+    const remove = (key: number) => {
+        controllersRef.current.get(key)?.abort();
+        const item = items.find((i) => i.key === key);
+        if (item?.previewUrl) {
+            URL.revokeObjectURL(item.previewUrl);
+            objectUrlsRef.current.delete(item.previewUrl);
+        }
+        setItems((list) => list.filter((i) => i.key !== key));
+    };
+
+    /** Returns the uploaded references and empties the tray; failed uploads are dropped */
+    const take = (): ChatAttachment[] => {
+        const ready = items.filter((i) => i.attachment);
+        takenRef.current = ready;
+        const kept: Record<string, string> = {};
+        for (const item of items) {
+            if (item.attachment && item.previewUrl) kept[item.attachment.id] = item.previewUrl;
+            else if (item.previewUrl) {
+                URL.revokeObjectURL(item.previewUrl);
+                objectUrlsRef.current.delete(item.previewUrl);
+            }
+        }
+        setPreviews((p) => ({ ...p, ...kept }));
+        setItems([]);
+        setRejection(null);
+        return ready.map((i) => i.attachment!);
+    };
+
+    /** Puts the files of the last `take()` back into the tray, e.g. after the send failed */
+    const restore = () => {
+        const taken = takenRef.current;
+        takenRef.current = [];
+        if (taken.length > 0) setItems((list) => [...taken, ...list]);
+    };
+
+    const clear = () => {
+        items.forEach((i) => remove(i.key));
+        setRejection(null);
+    };
+
+    return {
+        enabled,
+        items,
+        rejection,
+        dismissRejection: () => setRejection(null),
+        previews,
+        /** true while any upload is still running; sending waits for them */
+        uploading: items.some((i) => !i.attachment && !i.error),
+        add,
+        remove,
+        take,
+        restore,
+        clear,
+    };
+}
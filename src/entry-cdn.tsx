@@ -1,29 +1,550 @@
-import { createRoot } from "react-dom/client";
-import { ChatWidget } from "./components/ChatWidget";
+import { createRef, type RefObject } from "react";
+import { flushSync } from "react-dom";
+import { createRoot, type Root } from "react-dom/client";
+import type { AuthTokenProvider, ChatConfig, ChatIdentity, Provider } from "./api/ChatClient";
+import { MockTransport } from "./api/MockTransport";
+import { trimSelection } from "./api/context";
+import type { ChatTransport } from "./api/transport";
+import { ChatWidget, type ChatWidgetHandle } from "./components/ChatWidget";
+import type { PersistenceMode } from "./storage/conversationStore";
+import type { ChatEventDetails, ChatEventHandlers } from "./types";
+import { formatString, getStrings, type UiStrings } from "./i18n/strings";
+import { markdownToText } from "./markdown/renderMarkdown";
+import { proactiveKey, watchProactive, type ProactiveOptions } from "./proactive/proactive";
+import { applyCssVars, isDarkMode, mergeThemes, watchColorScheme, type ChatTheme } from "./theme/theme";
+import widgetCss from "./index.css?inline";
+// also emitted as dist/velior-ai-chat.css for pages that load it through `cssUrl`
 import "./index.css";
 
-type InitOptions = {
+type InitOptions = ChatEventHandlers & {
     elementId: string;
     apiUrl: string;
     configCode: string;
     chatType?: "embed" | "popup";
+    /** Render replies as they stream in (default true) */
+    streaming?: boolean;
+    /** Keep the conversation across page loads: "local" (default), "session" or "none" */
+    persistence?: PersistenceMode;
+    /** Milliseconds before a persisted conversation expires */
+    persistenceTtl?: number;
+    /** Arbitrary data sent along with every chat request as `context.metadata` */
+    context?: Record<string, unknown>;
+    /** Send the page URL, title and language with every chat request (default true) */
+    pageContext?: boolean;
+    /** Offer "Ask about selection" when the visitor highlights text on the page (default false) */
+    askAboutSelection?: boolean;
+    /** UI language ("cs", "sk", "de", "en"); defaults to the config's locale, then the browser's */
+    locale?: string;
+    /** Per-string UI overrides */
+    strings?: Partial<UiStrings>;
+    /** Branding; wins over the theme served with the config */
+    theme?: ChatTheme;
+    /** "shadow" renders inside a shadow root so host-page CSS can't reach the widget (default "none") */
+    isolation?: Isolation;
+    /** Stylesheet to link instead of injecting the bundled CSS as a `<style>` element, e.g. for a strict CSP */
+    cssUrl?: string;
+    /** CSP nonce for the widget's `<style>`/`<link>` elements; defaults to the loader script's nonce */
+    nonce?: string;
+    /** Milliseconds to wait for the server before giving up (default 30000) */
+    requestTimeout?: number;
+    /** Automatic retries after network errors and 5xx responses (default 2) */
+    maxRetries?: number;
+    /** Bearer token for the chat API; called again with `forceRefresh` after a 401 */
+    getAuthToken?: AuthTokenProvider;
+    /** Extra request headers, static or computed per request */
+    headers?: Provider<Record<string, string> | undefined>;
+    /** Signed visitor identity (user id, email, HMAC signature); only a static object also scopes the saved conversation */
+    identity?: Provider<ChatIdentity | null | undefined>;
+    /** Longest message in characters; defaults to the config's limit */
+    maxMessageLength?: number;
+    /** Files per message; 0 hides the attach button (default 5) */
+    maxAttachments?: number;
+    /** Largest accepted file in bytes (default 10 MB) */
+    maxAttachmentSize?: number;
+    /** Accepted MIME types, wildcards or extensions (default images and PDF) */
+    attachmentTypes?: string[];
+    /** Offer "Email me this conversation" in the export menu (default false) */
+    transcriptEmail?: boolean;
+    /** Popup only: teaser bubble or auto-open after time on page, scroll depth or exit intent */
+    proactive?: ProactiveOptions;
+    /** "http" (default) talks to `apiUrl`; "mock" answers from memory for demos; or pass your own transport */
+    transport?: "http" | "mock" | ChatTransport;
+};
+
+/** Handle returned from `init` so host pages can drive the widget */
+type VeliorAiChatInstance = {
+    /** Opens the popup panel (no-op for embeds) */
+    open: () => void;
+    /** Closes the popup panel (no-op for embeds) */
+    close: () => void;
+    toggle: () => void;
+    /** Sends a message as if the visitor typed it, opening the popup first */
+    send: (text: string) => void;
+    /** Replaces the metadata sent with subsequent requests */
+    setContext: (context: Record<string, unknown>) => void;
+    /**
+     * Applies changed options (theme, strings, handlers, limits…) without
+     * losing the conversation. API, config, chat type, isolation and transport
+     * are fixed once mounted; destroy and init again to change them.
+     */
+    update: (opts: Partial<InitOptions>) => void;
+    /** Opens the chat with `text` (default: the page's current selection) quoted for the next message */
+    askAboutSelection: (text?: string) => void;
+    /** Clears the conversation, same as "Start new conversation" */
+    reset: () => void;
+    /** Unmounts the widget and removes every element it created */
+    destroy: () => void;
 };
 
 declare global {
     interface Window {
         VeliorAiChat: {
-            init: (opts: InitOptions) => void;
+            init: (opts: InitOptions) => VeliorAiChatInstance | null;
+            /** Mounts every declared host under `root` (default: the whole document) that isn't mounted yet */
+            autoInit: (root?: ParentNode) => void;
+            /** Mounts hosts added later and destroys widgets whose host was removed; returns a stop function */
+            observe: () => () => void;
         };
     }
 }
 
 // Track mounted hosts to avoid double-mounting
-const mountedHosts = new WeakSet<HTMLElement>();
+const mountedHosts = new WeakMap<HTMLElement, VeliorAiChatInstance>();
+
+/** DOM created for one widget: the React root plus the popup chrome, if any */
+type Mount = {
+    root: Root;
+    /** element the `velior:*` DOM events are dispatched on */
+    eventTarget: HTMLElement;
+    open: () => void;
+    close: () => void;
+    isOpen: () => boolean;
+    dispose: () => void;
+    /** restyles DOM outside React (popup panel and launcher) */
+    applyTheme: (theme: ChatTheme) => void;
+    /** set by the instance to hear about opens/closes from the popup's own buttons */
+    onOpenChange?: (open: boolean) => void;
+    /** relabels DOM outside React after a locale or strings change (no-op for embeds) */
+    applyStrings: (strings: UiStrings) => void;
+    /** shows a dismissible bubble next to the launcher (no-op for embeds) */
+    showTeaser: (text: string) => void;
+    /** replaces the text of a teaser that is still showing */
+    updateTeaser: (text: string) => void;
+    /** counts a bot or agent reply that arrived while the panel was closed (no-op for embeds) */
+    markUnread: () => void;
+    /** server config once loaded; its `initialMessage` is the default teaser text */
+    config?: ChatConfig;
+    /** set by the instance to hear when the server config arrives */
+    onConfigLoaded?: (config: ChatConfig) => void;
+    /** settles once the widget CSS is in place; rejects with the `cssUrl` that failed, or undefined for a blocked `<style>` */
+    stylesLoaded: Promise<void>;
+};
+
+const EVENT_NAMES: { [K in keyof ChatEventDetails]: string } = {
+    open: "velior:open",
+    close: "velior:close",
+    messageSent: "velior:message-sent",
+    reply: "velior:reply",
+    followupClick: "velior:followup-click",
+    action: "velior:action",
+    cssError: "velior:css-error",
+    error: "velior:error",
+};
+
+// Dispatches a bubbling DOM event so tag managers can listen on document without code
+function emit<K extends keyof ChatEventDetails>(target: EventTarget, type: K, detail: ChatEventDetails[K]) {
+    try {
+        target.dispatchEvent(new CustomEvent(EVENT_NAMES[type], { detail, bubbles: true, composed: true }));
+    } catch {
+        /* ignore */
+    }
+}
+
+function renderWidget(
+    {
+        apiUrl,
+        configCode,
+        streaming,
+        persistence,
+        persistenceTtl,
+        context,
+        pageContext,
+        locale,
+        strings,
+        theme,
+        requestTimeout,
+        maxRetries,
+        getAuthToken,
+        headers,
+        identity,
+        maxMessageLength,
+        maxAttachments,
+        maxAttachmentSize,
+        attachmentTypes,
+        transcriptEmail,
+        transport,
+        ...handlers
+    }: InitOptions,
+    ref: RefObject<ChatWidgetHandle | null>,
+    mount: Mount
+) {
+    const target = mount.eventTarget;
+    return (
+        <ChatWidget
+            ref={ref}
+            apiUrl={apiUrl}
+            configCode={configCode}
+            streaming={streaming}
+            persistence={persistence}
+            persistenceTtl={persistenceTtl}
+            context={context}
+            pageContext={pageContext}
+            locale={locale}
+            strings={strings}
+            theme={theme}
+            requestTimeout={requestTimeout}
+            maxRetries={maxRetries}
+            getAuthToken={getAuthToken}
+            headers={headers}
+            identity={identity}
+            maxMessageLength={maxMessageLength}
+            maxAttachments={maxAttachments}
+            maxAttachmentSize={maxAttachmentSize}
+            attachmentTypes={attachmentTypes}
+            transcriptEmail={transcriptEmail}
+            transport={transport === "mock" ? getMockTransport() : transport === "http" ? undefined : transport}
+            onConfigLoaded={(cfg) => {
+                mount.config = cfg;
+                mount.applyTheme(mergeThemes(cfg.theme, theme));
+                mount.onConfigLoaded?.(cfg);
+            }}
+            onAgentMessage={() => {
+                if (!mount.isOpen()) mount.markUnread();
+            }}
+            onMessageSent={(d) => {
+                handlers.onMessageSent?.(d);
+                emit(target, "messageSent", d);
+            }}
+            onReply={(d) => {
+                if (!mount.isOpen()) mount.markUnread();
+                handlers.onReply?.(d);
+                emit(target, "reply", d);
+            }}
+            onFollowupClick={(d) => {
+                handlers.onFollowupClick?.(d);
+                emit(target, "followupClick", d);
+            }}
+            onAction={(d) => {
+                handlers.onAction?.(d);
+                emit(target, "action", d);
+            }}
+            onError={(d) => {
+                handlers.onError?.(d);
+                emit(target, "error", d);
+            }}
+        />
+    );
+}
+
+// one shared mock so re-renders (e.g. setContext) keep its scripted state
+let mockTransport: MockTransport | null = null;
+function getMockTransport() {
+    mockTransport ??= new MockTransport();
+    return mockTransport;
+}
+
+function createInstance(mount: Mount, opts: InitOptions, onDestroy?: () => void): VeliorAiChatInstance {
+    const widgetRef = createRef<ChatWidgetHandle>();
+    let current = opts;
+    let destroyed = false;
+    // resolved like the widget's own strings, so the popup chrome speaks the same language
+    const uiStrings = () => getStrings(current.locale ?? mount.config?.locale, mount.config?.strings, current.strings);
+
+    // proactive prompts stop for this page once the visitor opens the chat
+    let stopProactive = () => {};
+    let refreshTeaser = () => {};
+    if (opts.proactive && opts.chatType === "popup") {
+        const proactive = opts.proactive;
+        const teaserText = () => proactive.message ?? (markdownToText(mount.config?.initialMessage ?? "") || uiStrings().teaser);
+        stopProactive = watchProactive(proactive, proactiveKey(opts.apiUrl, opts.configCode), () => {
+            if (proactive.action === "open") mount.open();
+            else mount.showTeaser(teaserText());
+        });
+        refreshTeaser = () => mount.updateTeaser(teaserText());
+    }
+    const applyStrings = () => {
+        mount.applyStrings(uiStrings());
+        // a trigger can fire before the config is back; this swaps the generic text for its greeting
+        refreshTeaser();
+    };
+    mount.onConfigLoaded = applyStrings;
+
+    const stopSelection = opts.askAboutSelection
+        ? watchSelection(() => uiStrings().askAboutSelection, (text) => instance.askAboutSelection(text))
+        : () => {};
+
+    mount.onOpenChange = (open) => {
+        const detail = { configCode: current.configCode };
+        if (open) {
+            stopProactive();
+            current.onOpen?.(detail);
+            emit(mount.eventTarget, "open", detail);
+        } else {
+            current.onClose?.(detail);
+            emit(mount.eventTarget, "close", detail);
+        }
+    };
+
+    mount.stylesLoaded.catch((url: string | undefined) => {
+        if (destroyed) return;
+        const detail = { configCode: current.configCode, url };
+        console.error(
+            url
+                ? `VeliorAiChat: stylesheet failed to load: ${url}`
+                : "VeliorAiChat: the widget <style> was blocked; pass a CSP nonce or a cssUrl"
+        );
+        current.onCssError?.(detail);
+        emit(mount.eventTarget, "cssError", detail);
+    });
+
+    mount.applyTheme(current.theme ?? {});
+    const render = () => mount.root.render(renderWidget(current, widgetRef, mount));
+    // render synchronously so the handle works right after init() returns
+    flushSync(render);
+
+    const instance: VeliorAiChatInstance = {
+        open: () => !destroyed && mount.open(),
+        close: () => !destroyed && mount.close(),
+        toggle: () => !destroyed && (mount.isOpen() ? mount.close() : mount.open()),
+        send(text) {
+            if (destroyed) return;
+            mount.open();
+            widgetRef.current?.send(text);
+        },
+        setContext: (context) => instance.update({ context }),
+        update(opts) {
+            if (destroyed) return;
+            current = { ...current, ...opts };
+            mount.applyTheme(mergeThemes(mount.config?.theme, current.theme));
+            if ("locale" in opts || "strings" in opts) applyStrings();
+            render();
+        },
+        reset: () => !destroyed && widgetRef.current?.reset(),
+        askAboutSelection(text) {
+            const quote = trimSelection(text ?? currentSelectionText());
+            if (destroyed || !quote) return;
+            mount.open();
+            widgetRef.current?.askAbout(quote);
+        },
+        destroy() {
+            if (destroyed) return;
+            destroyed = true;
+            stopProactive();
+            stopSelection();
+            mount.root.unmount();
+            mount.dispose();
+            onDestroy?.();
+        },
+    };
+    return instance;
+}
+
+function createEmbedMount(el: HTMLElement, styles: StyleOptions): Mount {
+    let container = el;
+    let dispose = () => {};
+    let stylesLoaded: Promise<void>;
+    if (styles.isolation === "shadow") {
+        const layer = createShadowLayer(el, styles);
+        stylesLoaded = layer.loaded;
+        container = document.createElement("div");
+        container.style.height = "100%";
+        layer.root.appendChild(container);
+        dispose = () => {
+            container.remove();
+            layer.dispose();
+        };
+    } else {
+        stylesLoaded = injectDocumentStyles(styles);
+    }
+
+    return {
+        root: createRoot(container),
+        eventTarget: el,
+        stylesLoaded,
+        open: () => {},
+        close: () => {},
+        isOpen: () => true,
+        dispose,
+        // the widget styles itself from the theme prop
+        applyTheme: () => {},
+        applyStrings: () => {},
+        showTeaser: () => {},
+        updateTeaser: () => {},
+        markUnread: () => {},
+    };
+}
+
+/* ================================
+   ASK ABOUT SELECTION
+================================ */
+// highlighted page text, ignoring selections inside the widgets themselves
+function currentSelectionText(): string {
+    const selection = document.getSelection();
+    if (!selection || selection.isCollapsed) return "";
+    const node = selection.anchorNode;
+    const el = node instanceof Element ? node : node?.parentElement;
+    if (el?.closest("[data-velior-widget], .velior-ai-popup")) return "";
+    return selection.toString().trim();
+}
+
+/**
+ * Floats a button over highlighted page text. It is styled inline rather than
+ * with the widget CSS so it looks the same with or without shadow isolation.
+ * `label` is read each time the button shows, so it follows locale changes.
+ */
+function watchSelection(label: () => string, onAsk: (text: string) => void): () => void {
+    const button = document.createElement("button");
+    button.type = "button";
+    Object.assign(button.style, {
+        position: "fixed",
+        display: "none",
+        transform: "translateX(-50%)",
+        padding: "6px 12px",
+        borderRadius: "999px",
+        border: "none",
+        background: "#171717",
+        color: "#ffffff",
+        font: "500 13px/1.2 system-ui, sans-serif",
+        boxShadow: "0 4px 12px rgba(0, 0, 0, 0.25)",
+        cursor: "pointer",
+        zIndex: "2147483002",
+    } as CSSStyleDeclaration);
+    document.body.appendChild(button);
+
+    let text = "";
+    const hide = () => {
+        button.style.display = "none";
+        text = "";
+    };
+    const update = () => {
+        text = currentSelectionText();
+        const selection = document.getSelection();
+        if (!text || !selection || selection.rangeCount === 0) return hide();
+        const rect = selection.getRangeAt(0).getBoundingClientRect();
+        // above the selection unless it's at the very top of the viewport
+        button.style.top = `${rect.top > 48 ? rect.top - 40 : rect.bottom + 8}px`;
+        button.style.left = `${Math.min(Math.max(rect.left + rect.width / 2, 90), window.innerWidth - 90)}px`;
+        button.textContent = label();
+        button.style.display = "block";
+    };
+
+    // the selection settles after the pointer is released
+    const onPointerUp = (e: PointerEvent) => {
+        if (e.target !== button) setTimeout(update, 0);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+        if (e.shiftKey || e.key === "Shift") update();
+    };
+    const onSelectionChange = () => {
+        if (text && !currentSelectionText()) hide();
+    };
+
+    // keep the page selection when the button is pressed
+    button.addEventListener("mousedown", (e) => e.preventDefault());
+    button.addEventListener("click", () => {
+        const quote = text;
+        hide();
+        if (quote) onAsk(quote);
+    });
+    document.addEventListener("pointerup", onPointerUp);
+    document.addEventListener("keyup", onKeyUp);
+    document.addEventListener("selectionchange", onSelectionChange);
+    window.addEventListener("scroll", hide, { passive: true });
+
+    return () => {
+        document.removeEventListener("pointerup", onPointerUp);
+        document.removeEventListener("keyup", onKeyUp);
+        document.removeEventListener("selectionchange", onSelectionChange);
+        window.removeEventListener("scroll", hide);
+        button.remove();
+    };
+}
 
 /* ================================
    POPUP MOUNT
 ================================ */
-function createPopupMount(apiUrl: string, configCode: string) {
+let popupCount = 0;
+
+const FOCUSABLE =
+    'a[href], button:not([disabled]), textarea:not([disabled]), input:not([disabled]):not([type="hidden"]), select:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// keeps Tab / Shift+Tab cycling inside the open popup
+function trapFocus(container: HTMLElement, e: KeyboardEvent) {
+    const focusable = Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(
+        (el) => el.getClientRects().length > 0
+    );
+    if (focusable.length === 0) return;
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    // inside a shadow root document.activeElement is the host, so ask the root
+    const active = (container.getRootNode() as Document | ShadowRoot).activeElement;
+    if (e.shiftKey && (active === first || !container.contains(active))) {
+        e.preventDefault();
+        last.focus();
+    } else if (!e.shiftKey && active === last) {
+        e.preventDefault();
+        first.focus();
+    }
+}
+
+// icons are built node by node; markup strings would need innerHTML, which strict CSPs (Trusted Types) reject
+function createIcon(path: string, attributes: Record<string, string>): SVGSVGElement {
+    const svgNs = "http://www.w3.org/2000/svg";
+    const svg = document.createElementNS(svgNs, "svg");
+    svg.setAttribute("viewBox", "0 0 24 24");
+    svg.setAttribute("aria-hidden", "true");
+    for (const [name, value] of Object.entries(attributes)) svg.setAttribute(name, value);
+    const el = document.createElementNS(svgNs, "path");
+    el.setAttribute("d", path);
+    svg.appendChild(el);
+    return svg;
+}
+
+function createCloseIcon(): SVGSVGElement {
+    return createIcon("M6 6l12 12M18 6L6 18", {
+        class: "w-4 h-4 stroke-current",
+        fill: "none",
+        "stroke-width": "2",
+        "stroke-linecap": "round",
+    });
+}
+
+function createChatIcon(): SVGSVGElement {
+    return createIcon(
+        "M12 3C7 3 3 6.58 3 11c0 2.05.88 3.92 2.33 5.35L5 21l4.7-1.26C11.05 20 11.52 20 12 20c5 0 9-3.58 9-8s-4-9-9-9z",
+        { class: "w-5 h-5 fill-current" }
+    );
+}
+
+function createPopupMount(initialStrings: UiStrings, styles: StyleOptions): Mount {
+    let strings = initialStrings;
+    /* --- Where the chrome lives: the page body or an isolated shadow root --- */
+    let parent: HTMLElement | ShadowRoot = document.body;
+    let shadowHost: HTMLElement | null = null;
+    let disposeLayer = () => {};
+    let stylesLoaded: Promise<void>;
+    if (styles.isolation === "shadow") {
+        shadowHost = document.createElement("div");
+        shadowHost.className = "velior-ai-popup-host";
+        document.body.appendChild(shadowHost);
+        const layer = createShadowLayer(shadowHost, styles);
+        parent = layer.root;
+        disposeLayer = layer.dispose;
+        stylesLoaded = layer.loaded;
+    } else {
+        stylesLoaded = injectDocumentStyles(styles);
+    }
+
     /* --- Popup panel --- */
     const panel = document.createElement("div");
     Object.assign(panel.style, {
@@ -40,18 +561,16 @@ function createPopupMount(apiUrl: string, configCode: string) {
         zIndex: "2147483000",
     } as CSSStyleDeclaration);
 
+    panel.id = `velior-ai-popup-${++popupCount}`;
+    panel.setAttribute("role", "dialog");
+    panel.setAttribute("aria-modal", "true");
     panel.className = `
     velior-ai-popup
     bg-white dark:bg-neutral-900
     border border-neutral-200 dark:border-neutral-800
-    shadow-2xl
+    shadow-2xl font-velior
   `;
 
-    // Respect system dark mode by default
-    if (window.matchMedia("(prefers-color-scheme: dark)").matches) {
-        panel.classList.add("dark");
-    }
-
     /* --- Header --- */
     const header = document.createElement("div");
     header.className = `
@@ -61,7 +580,7 @@ function createPopupMount(apiUrl: string, configCode: string) {
   `;
 
     const closeBtn = document.createElement("button");
-    closeBtn.innerText = "✕";
+    closeBtn.appendChild(createCloseIcon());
     closeBtn.className = `
   w-9 h-9
   flex items-center justify-center
@@ -83,11 +602,13 @@ function createPopupMount(apiUrl: string, configCode: string) {
 
     panel.appendChild(header);
     panel.appendChild(host);
-    document.body.appendChild(panel);
+    parent.appendChild(panel);
 
     /* --- Launcher button --- */
     const button = document.createElement("button");
-    button.setAttribute("aria-label", "Open chat");
+    button.setAttribute("aria-haspopup", "dialog");
+    button.setAttribute("aria-controls", panel.id);
+    button.setAttribute("aria-expanded", "false");
     Object.assign(button.style, {
         position: "fixed",
         right: "20px",
@@ -101,159 +622,643 @@ function createPopupMount(apiUrl: string, configCode: string) {
     } as CSSStyleDeclaration);
 
     button.className = `
-    bg-blue-600 hover:bg-blue-700
-    text-white shadow-xl
+    velior-ai-launcher
+    bg-velior-primary hover:brightness-110
+    text-velior-primary-text shadow-xl
     flex items-center justify-center
   `;
 
-    button.innerHTML = `
-    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"
-      class="w-5 h-5 fill-current">
-      <path d="M12 3C7 3 3 6.58 3 11c0 2.05.88 3.92 2.33 5.35L5 21l4.7-1.26C11.05 20 11.52 20 12 20c5 0 9-3.58 9-8s-4-9-9-9z"/>
-    </svg>
+    // the icon lives in its own slot so theme changes don't wipe the badge
+    const iconSlot = document.createElement("span");
+    iconSlot.className = "flex items-center justify-center";
+    iconSlot.appendChild(createChatIcon());
+
+    const badge = document.createElement("span");
+    badge.setAttribute("aria-hidden", "true");
+    badge.className = `
+    absolute -top-1 -right-1 min-w-[20px] h-5 px-1
+    rounded-full bg-red-600 text-white text-xs font-semibold
+    items-center justify-center
   `;
-    document.body.appendChild(button);
+    badge.style.display = "none";
+
+    button.append(iconSlot, badge);
+    parent.appendChild(button);
+
+    /* --- Teaser bubble --- */
+    const teaser = document.createElement("div");
+    teaser.setAttribute("role", "status");
+    Object.assign(teaser.style, {
+        position: "fixed",
+        right: "20px",
+        bottom: "88px",
+        maxWidth: "min(280px, calc(100vw - 40px))",
+        display: "none",
+        zIndex: "2147483001",
+    } as CSSStyleDeclaration);
+    teaser.className = `
+    velior-ai-teaser font-velior
+    flex items-start gap-2 p-3 rounded-2xl shadow-xl
+    bg-white dark:bg-neutral-900 text-neutral-900 dark:text-neutral-100
+    border border-neutral-200 dark:border-neutral-800
+  `;
+
+    const teaserText = document.createElement("button");
+    teaserText.className = "flex-1 text-left text-sm line-clamp-3";
+
+    const teaserClose = document.createElement("button");
+    teaserClose.appendChild(createCloseIcon());
+    teaserClose.className = "flex-none text-neutral-500 hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-white";
+
+    teaser.append(teaserText, teaserClose);
+    parent.appendChild(teaser);
+
+    const hideTeaser = () => {
+        teaser.style.display = "none";
+    };
+    const showTeaser = (text: string) => {
+        if (opened) return;
+        teaserText.textContent = text;
+        teaser.style.display = "flex";
+    };
+    const updateTeaser = (text: string) => {
+        if (teaser.style.display !== "none") teaserText.textContent = text;
+    };
+
+    let unread = 0;
+    const setUnread = (count: number) => {
+        unread = count;
+        badge.textContent = count > 9 ? "9+" : String(count);
+        badge.style.display = count > 0 ? "flex" : "none";
+        button.setAttribute(
+            "aria-label",
+            count > 0 ? `${strings.openChat} (${formatString(strings.unreadMessages, { count })})` : strings.openChat
+        );
+    };
+
+    /* --- Labels --- */
+    const applyStrings = (next: UiStrings) => {
+        strings = next;
+        panel.setAttribute("aria-label", strings.chatTitle);
+        closeBtn.setAttribute("aria-label", strings.closeChat);
+        closeBtn.title = strings.closeChat;
+        teaserClose.setAttribute("aria-label", strings.dismiss);
+        teaserClose.title = strings.dismiss;
+        setUnread(unread);
+    };
+    applyStrings(initialStrings);
+
+    /* --- Theme --- */
+    let mode: ChatTheme["mode"] = "auto";
+    let icon: string | undefined;
+    const syncDark = () => {
+        for (const el of [panel, teaser]) el.classList.toggle("dark", isDarkMode(mode));
+    };
+    const unwatchColorScheme = watchColorScheme(syncDark);
+
+    const applyTheme = (theme: ChatTheme) => {
+        applyCssVars(panel, theme);
+        applyCssVars(button, theme);
+
+        const side = theme.position === "left" ? "left" : "right";
+        const other = side === "left" ? "right" : "left";
+        for (const el of [panel, button, teaser]) {
+            el.style.setProperty(side, "20px");
+            el.style.removeProperty(other);
+        }
+        panel.style.width = theme.panelWidth || "360px";
+        panel.style.height = theme.panelHeight || "520px";
+        panel.style.borderRadius = theme.radius || "16px";
+
+        mode = theme.mode ?? "auto";
+        syncDark();
+
+        if (theme.launcherIcon !== icon) {
+            icon = theme.launcherIcon;
+            if (icon) {
+                const img = document.createElement("img");
+                img.src = icon;
+                img.alt = "";
+                img.className = "w-7 h-7 object-contain";
+                iconSlot.replaceChildren(img);
+            } else {
+                iconSlot.replaceChildren(createChatIcon());
+            }
+        }
+    };
 
     /* --- Mount React --- */
-    tryInjectCssForBundle();
     const root = createRoot(host);
-    root.render(<ChatWidget apiUrl={apiUrl} configCode={configCode} />);
 
     /* --- Open / close logic --- */
     let opened = false;
     const openPanel = () => {
+        if (opened) return;
         panel.style.display = "block";
         button.style.display = "none";
+        button.setAttribute("aria-expanded", "true");
+        hideTeaser();
+        setUnread(0);
         opened = true;
+        mount.onOpenChange?.(true);
+        // the composer may not be rendered yet on the first open
+        requestAnimationFrame(() => {
+            const input = panel.querySelector<HTMLElement>("textarea:not([disabled])");
+            (input ?? closeBtn).focus();
+        });
     };
     const closePanel = () => {
+        if (!opened) return;
         panel.style.display = "none";
         button.style.display = "flex";
+        button.setAttribute("aria-expanded", "false");
         opened = false;
+        mount.onOpenChange?.(false);
+        button.focus();
     };
 
-    button.addEventListener("click", () => !opened && openPanel());
+    button.addEventListener("click", openPanel);
     closeBtn.addEventListener("click", closePanel);
+    teaserText.addEventListener("click", openPanel);
+    teaserClose.addEventListener("click", hideTeaser);
+    panel.addEventListener("keydown", (e) => {
+        // widget controls that use Escape themselves (e.g. cancelling an edit) mark it handled
+        if (e.key === "Escape" && !e.defaultPrevented) {
+            e.preventDefault();
+            closePanel();
+        } else if (e.key === "Tab") {
+            trapFocus(panel, e);
+        }
+    });
+
+    const mount: Mount = {
+        root,
+        eventTarget: panel,
+        stylesLoaded,
+        open: openPanel,
+        close: closePanel,
+        isOpen: () => opened,
+        dispose: () => {
+            unwatchColorScheme();
+            panel.remove();
+            button.remove();
+            teaser.remove();
+            disposeLayer();
+            shadowHost?.remove();
+        },
+        applyTheme,
+        applyStrings,
+        showTeaser,
+        updateTeaser,
+        markUnread: () => setUnread(unread + 1),
+    };
+    return mount;
+}
+
+function mountHost(el: HTMLElement, opts: InitOptions) {
+    const instance = createInstance(createEmbedMount(el, opts), opts, () => forgetHost(el));
+    rememberHost(el, instance);
+    return instance;
+}
+
+// popup whose events go to a declaring element (a host `<div>` or the `<script>` tag)
+function mountPopupHost(el: HTMLElement, opts: InitOptions) {
+    const mount = createPopupMount(getStrings(opts.locale, opts.strings), opts);
+    mount.eventTarget = el;
+    const instance = createInstance(mount, opts, () => forgetHost(el));
+    rememberHost(el, instance);
+    return instance;
+}
+
+// hosts in the order they were mounted, so the observer can find detached ones
+const liveHosts = new Set<HTMLElement>();
+
+function rememberHost(el: HTMLElement, instance: VeliorAiChatInstance) {
+    mountedHosts.set(el, instance);
+    liveHosts.add(el);
 }
 
+function forgetHost(el: HTMLElement) {
+    mountedHosts.delete(el);
+    liveHosts.delete(el);
+}
+
+// popups created through init() without a host element, keyed by API and config
+const popupInstances = new Map<string, VeliorAiChatInstance>();
+
 /* ================================
    PUBLIC API
 ================================ */
 window.VeliorAiChat = {
-    init({ elementId, apiUrl, configCode, chatType = "embed" }: InitOptions) {
+    init(opts: InitOptions) {
+        const { elementId, chatType = "embed" } = opts;
+        const el = elementId ? document.getElementById(elementId) : null;
         if (chatType === "popup") {
             try {
-                createPopupMount(apiUrl, configCode);
+                if (el) return mountedHosts.get(el) ?? mountPopupHost(el, opts);
+                const key = `${opts.apiUrl}\n${opts.configCode}`;
+                const existing = popupInstances.get(key);
+                if (existing) return existing;
+                const instance = createInstance(
+                    createPopupMount(getStrings(opts.locale, opts.strings), opts),
+                    opts,
+                    () => popupInstances.delete(key)
+                );
+                popupInstances.set(key, instance);
+                return instance;
             } catch (e) {
                 console.error("VeliorAiChat popup init failed", e);
+                return null;
             }
-            return;
         }
 
-        const el = document.getElementById(elementId);
         if (!el) {
             console.error("VeliorAiChat: element not found");
-            return;
+            return null;
         }
 
-        if (mountedHosts.has(el)) return;
-        mountedHosts.add(el);
-
-        tryInjectCssForBundle();
-        createRoot(el).render(
-            <ChatWidget apiUrl={apiUrl} configCode={configCode} />
-        );
+        return mountedHosts.get(el) ?? mountHost(el, opts);
     },
+    autoInit: (root?: ParentNode) => autoInitFromDom(root),
+    observe: observeDom,
 };
 
 /* ================================
    AUTO INIT
 ================================ */
-function autoInitFromDom() {
-    try {
-        const host =
-            document.getElementById("velior-ai-chat") ||
-            document.querySelector(".velior-ai-chat");
+const HOST_SELECTOR = "#velior-ai-chat, .velior-ai-chat, [data-velior-ai-chat]";
+
+// captured while the bundle runs; `document.currentScript` is null afterwards
+const ownScript = document.currentScript as HTMLScriptElement | null;
 
-        if (!host) return;
-        if (mountedHosts.has(host as HTMLElement)) return;
+type AttrParser = (value: string) => unknown;
 
-        const apiUrl =
-            (host as HTMLElement).getAttribute("data-api-url");
+const asString: AttrParser = (value) => value;
+const asNumber: AttrParser = (value) => (value.trim() && Number.isFinite(Number(value)) ? Number(value) : undefined);
+const asBoolean: AttrParser = (value) => value !== "false";
+// comma-separated, like the `accept` attribute of a file input
+const asList: AttrParser = (value) =>
+    value
+        .split(",")
+        .map((v) => v.trim())
+        .filter(Boolean);
+const oneOf =
+    (...allowed: string[]): AttrParser =>
+    (value) =>
+        allowed.includes(value) ? value : undefined;
 
+// callbacks are given as the name of a global function, e.g. data-on-reply="analytics.chatReply"
+const asFunction: AttrParser = (value) => {
+    const fn = value
+        .split(".")
+        .reduce<unknown>((obj, key) => (obj == null ? undefined : (obj as Record<string, unknown>)[key]), window);
+    if (typeof fn === "function") return fn;
+    console.error(`VeliorAiChat: "${value}" is not a global function`);
+    return undefined;
+};
+
+/** How each option is read from its `data-*` attribute (`maxRetries` ← `data-max-retries`) */
+const DATA_ATTRIBUTES: { [K in keyof InitOptions]-?: AttrParser } = {
+    elementId: asString,
+    apiUrl: asString,
+    configCode: asString,
+    chatType: oneOf("embed", "popup"),
+    streaming: asBoolean,
+    persistence: oneOf("local", "session", "none"),
+    persistenceTtl: asNumber,
+    context: parseJsonAttr,
+    pageContext: asBoolean,
+    askAboutSelection: asBoolean,
+    locale: asString,
+    strings: parseJsonAttr,
+    theme: parseJsonAttr,
+    isolation: oneOf("none", "shadow"),
+    cssUrl: asString,
+    nonce: asString,
+    requestTimeout: asNumber,
+    maxRetries: asNumber,
+    getAuthToken: asFunction,
+    headers: parseJsonAttr,
+    identity: parseJsonAttr,
+    maxMessageLength: asNumber,
+    maxAttachments: asNumber,
+    maxAttachmentSize: asNumber,
+    attachmentTypes: asList,
+    transcriptEmail: asBoolean,
+    proactive: parseJsonAttr,
+    transport: oneOf("http", "mock"),
+    onOpen: asFunction,
+    onClose: asFunction,
+    onMessageSent: asFunction,
+    onReply: asFunction,
+    onFollowupClick: asFunction,
+    onAction: asFunction,
+    onError: asFunction,
+    onCssError: asFunction,
+};
+
+const toAttributeName = (key: string) => key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+
+function readDataOptions(el: Element, prefix = "data-"): Partial<InitOptions> {
+    const opts: Record<string, unknown> = {};
+    for (const [key, parse] of Object.entries(DATA_ATTRIBUTES)) {
+        const value = el.getAttribute(prefix + toAttributeName(key));
+        if (value === null) continue;
+        const parsed = parse(value);
+        if (parsed !== undefined) opts[key] = parsed;
+    }
+    return opts as Partial<InitOptions>;
+}
+
+/**
+ * Mounts every host under `root` that isn't mounted yet. Attributes on the
+ * `<script>` tag are defaults for all hosts; without any host element the
+ * script tag itself declares the widget (usually `data-chat-type="popup"`).
+ */
+function autoInitFromDom(root: ParentNode = document) {
+    const defaults = ownScript ? readDataOptions(ownScript) : {};
+    const candidates = Array.from(root.querySelectorAll<HTMLElement>(HOST_SELECTOR));
+    if (root instanceof HTMLElement && root.matches(HOST_SELECTOR)) candidates.unshift(root);
+    // the rendered widget carries the `velior-ai-chat` class as well
+    const hosts = candidates.filter((el) => !el.hasAttribute("data-velior-widget"));
+
+    for (const host of hosts) {
+        mountDeclared(host, { ...defaults, ...readDataOptions(host) });
+    }
+
+    if (root === document && ownScript && defaults.configCode && hosts.length === 0) {
+        mountDeclared(ownScript, defaults);
+    }
+}
+
+function mountDeclared(host: HTMLElement, opts: Partial<InitOptions>) {
+    if (mountedHosts.has(host)) return;
+    try {
+        const { apiUrl, configCode } = opts;
         if (!apiUrl) {
-            console.error("VeliorAiChat: data-api-url is required");
+            console.error("VeliorAiChat: data-api-url is required", host);
             return;
         }
-
-        const configCode =
-            (host as HTMLElement).getAttribute("data-config-code");
-
         if (!configCode) {
-            console.error("VeliorAiChat: data-config-code is required");
+            console.error("VeliorAiChat: data-config-code is required", host);
             return;
         }
+        const full: InitOptions = { ...opts, elementId: opts.elementId ?? host.id, apiUrl, configCode };
 
-        const chatType =
-            ((host as HTMLElement).getAttribute("data-chat-type") as
-                | "embed"
-                | "popup") || "embed";
-
-        mountedHosts.add(host as HTMLElement);
-        tryInjectCssForBundle();
-
-        if (chatType === "popup") {
-            createPopupMount(apiUrl, configCode);
+        if (full.chatType === "popup") {
+            mountPopupHost(host, full);
+        } else if (host instanceof HTMLScriptElement) {
+            // a script tag can't hold an embed; it points at its container instead
+            const target = full.elementId ? document.getElementById(full.elementId) : null;
+            if (!target) {
+                console.error("VeliorAiChat: data-element-id must name the embed container", host);
+                return;
+            }
+            if (!mountedHosts.has(target)) mountHost(target, full);
         } else {
-            createRoot(host as HTMLElement).render(
-                <ChatWidget apiUrl={apiUrl} configCode={configCode} />
-            );
+            mountHost(host, full);
         }
     } catch (e) {
         console.error("VeliorAiChat auto-init failed", e);
     }
 }
 
+function parseJsonAttr<T>(value: string | null): T | undefined {
+    if (!value) return undefined;
+    try {
+        return JSON.parse(value) as T;
+    } catch {
+        console.error("VeliorAiChat: invalid JSON in data attribute", value);
+        return undefined;
+    }
+}
+
+/* ================================
+   DOM OBSERVER
+================================ */
+let observer: MutationObserver | null = null;
+
+/**
+ * Watches the page for hosts added or removed later (SPAs): new hosts are
+ * mounted, widgets whose host left the document are destroyed.
+ * Returns a function that stops watching.
+ */
+function observeDom(): () => void {
+    if (!observer) {
+        observer = new MutationObserver((records) => {
+            let removed = false;
+            for (const record of records) {
+                record.addedNodes.forEach((node) => {
+                    // skip the widgets' own rendering, which changes with every streamed token
+                    if (node instanceof HTMLElement && !node.closest("[data-velior-widget]")) autoInitFromDom(node);
+                });
+                removed ||= record.removedNodes.length > 0;
+            }
+            if (!removed) return;
+            for (const host of Array.from(liveHosts)) {
+                if (!host.isConnected) mountedHosts.get(host)?.destroy();
+            }
+        });
+        observer.observe(document.documentElement, { childList: true, subtree: true });
+    }
+    return () => {
+        observer?.disconnect();
+        observer = null;
+    };
+}
+
+/* ================================
+   WEB COMPONENT
+================================ */
+// options fixed for a mounted widget; changing one of these attributes mounts a fresh one
+const REMOUNT_OPTIONS: (keyof InitOptions)[] = [
+    "apiUrl",
+    "configCode",
+    "chatType",
+    "isolation",
+    "transport",
+    "persistence",
+    "persistenceTtl",
+    "proactive",
+    "askAboutSelection",
+];
+
+/**
+ * `<velior-ai-chat api-url="…" config-code="…">` — the same options as the
+ * `data-*` attributes, without the prefix. Attribute changes apply live;
+ * `velior:*` events are dispatched on the element.
+ */
+class VeliorAiChatElement extends HTMLElement {
+    static get observedAttributes() {
+        return Object.keys(DATA_ATTRIBUTES).map(toAttributeName);
+    }
+
+    private instance: VeliorAiChatInstance | null = null;
+    private options: InitOptions | null = null;
+    private scheduled = false;
+
+    connectedCallback() {
+        // an embed fills the element, which is inline by default
+        if (!this.style.display) this.style.display = "block";
+        this.schedule();
+    }
+
+    disconnectedCallback() {
+        // moving the element around disconnects and reconnects it in one go
+        queueMicrotask(() => {
+            if (!this.isConnected) this.unmount();
+        });
+    }
+
+    attributeChangedCallback() {
+        if (this.isConnected) this.schedule();
+    }
+
+    // frameworks set attributes one at a time; apply them together
+    private schedule() {
+        if (this.scheduled) return;
+        this.scheduled = true;
+        queueMicrotask(() => {
+            this.scheduled = false;
+            this.sync();
+        });
+    }
+
+    private sync() {
+        if (!this.isConnected) return;
+        const { apiUrl, configCode, ...rest } = readDataOptions(this, "");
+        // wait until both required attributes are set
+        if (!apiUrl || !configCode) return this.unmount();
+
+        const next: InitOptions = { ...rest, elementId: this.id, apiUrl, configCode };
+        // `getAttribute("nonce")` is "" once the browser hides it; the property keeps the value
+        if (rest.nonce !== undefined) next.nonce = rest.nonce || this.nonce || undefined;
+        const previous = this.options;
+        const live = this.instance && mountedHosts.get(this) === this.instance;
+        if (live && previous && REMOUNT_OPTIONS.every((k) => JSON.stringify(previous[k]) === JSON.stringify(next[k]))) {
+            // removed attributes go back to their defaults
+            const cleared = Object.fromEntries(Object.keys(DATA_ATTRIBUTES).map((key) => [key, undefined]));
+            this.instance!.update({ ...cleared, ...next });
+        } else {
+            this.unmount();
+            this.instance = next.chatType === "popup" ? mountPopupHost(this, next) : mountHost(this, next);
+        }
+        this.options = next;
+    }
+
+    private unmount() {
+        // also covers a widget auto-init mounted here because of a matching class or id
+        mountedHosts.get(this)?.destroy();
+        this.instance?.destroy();
+        this.instance = null;
+        this.options = null;
+    }
+}
+
+if (!customElements.get("velior-ai-chat")) customElements.define("velior-ai-chat", VeliorAiChatElement);
+
+function start() {
+    autoInitFromDom();
+    if (ownScript?.hasAttribute("data-observe") && ownScript.getAttribute("data-observe") !== "false") observeDom();
+}
+
 if (document.readyState === "loading") {
-    document.addEventListener("DOMContentLoaded", autoInitFromDom);
+    document.addEventListener("DOMContentLoaded", start);
 } else {
-    autoInitFromDom();
+    start();
 }
 
 /* ================================
-   CSS INJECTION
+   STYLES & ISOLATION
 ================================ */
-function tryInjectCssForBundle() {
-    try {
-        if (document.querySelector("link[data-velior-css]")) return;
+type Isolation = "none" | "shadow";
 
-        const current = document.currentScript as HTMLScriptElement | null;
-        let scriptSrc = current?.src ?? null;
+/** How a mount gets its CSS */
+type StyleOptions = Pick<InitOptions, "isolation" | "cssUrl" | "nonce">;
 
-        if (!scriptSrc) {
-            const scripts = Array.from(document.getElementsByTagName("script"));
-            const candidate = scripts.find((s) =>
-                /velior-ai-chat(\.iife|)\.js$/.test(s.src)
-            );
-            scriptSrc = candidate?.src ?? null;
-        }
+// Under a strict CSP, `<style>` elements need the page's nonce and
+// `cssUrl` links need an allowed origin. Styles set through the CSSOM
+// (`el.style.x = …`, React's `style` prop) aren't restricted by style-src.
+// An empty `nonce` (what a hidden nonce attribute reads as) falls back to the loader script's.
+function styleNonce(styles: StyleOptions) {
+    return styles.nonce || ownScript?.nonce || undefined;
+}
 
-        if (!scriptSrc) return;
+// The widget CSS is bundled as a string so it can be placed either in the
+// document head or inside each shadow root, unless `cssUrl` points at a file.
+function createStyleElement(nonce?: string) {
+    const style = document.createElement("style");
+    style.setAttribute("data-velior-style", "");
+    if (nonce) style.nonce = nonce;
+    style.textContent = widgetCss;
+    return style;
+}
+
+/**
+ * A `<style>` gets its sheet as soon as it is attached, unless the CSP blocked it;
+ * no event fires in that case, so this is checked right after inserting it.
+ */
+function styleApplied(style: HTMLStyleElement): Promise<void> {
+    if (!style.isConnected || style.sheet) return Promise.resolve();
+    const blocked = Promise.reject<void>(undefined);
+    // handled by each mount, like a failed link below
+    blocked.catch(() => {});
+    return blocked;
+}
 
-        const url = new URL(scriptSrc, location.href);
-        const base = url.pathname.substring(0, url.pathname.lastIndexOf("/"));
-        url.pathname = base.endsWith("/dist")
-            ? `${base}/velior-ai-chat.css`
-            : `${base}/dist/velior-ai-chat.css`;
+/** The link stays in place when it fails, so the page can see what was blocked; the promise rejects with the URL. */
+function createStylesheetLink(url: string, nonce?: string): { link: HTMLLinkElement; loaded: Promise<void> } {
+    const link = document.createElement("link");
+    link.rel = "stylesheet";
+    link.href = url;
+    link.setAttribute("data-velior-css", "");
+    if (nonce) link.nonce = nonce;
+    const loaded = new Promise<void>((resolve, reject) => {
+        link.addEventListener("load", () => resolve(), { once: true });
+        link.addEventListener("error", () => reject(url), { once: true });
+    });
+    // handled by each mount; this keeps an unobserved failure from being reported twice
+    loaded.catch(() => {});
+    return { link, loaded };
+}
 
-        const link = document.createElement("link");
-        link.rel = "stylesheet";
-        link.href = url.toString();
-        link.setAttribute("data-velior-css", "1");
-        link.onerror = () => link.remove();
+// document-level stylesheets by URL ("" for the bundled CSS), shared by all non-isolated widgets
+const documentStyles = new Map<string, Promise<void>>();
 
-        document.head.appendChild(link);
-    } catch {
-        /* ignore */
+function injectDocumentStyles(styles: StyleOptions): Promise<void> {
+    const key = styles.cssUrl ?? "";
+    let loaded = documentStyles.get(key);
+    if (!loaded) {
+        if (styles.cssUrl) {
+            const stylesheet = createStylesheetLink(styles.cssUrl, styleNonce(styles));
+            document.head.appendChild(stylesheet.link);
+            loaded = stylesheet.loaded;
+        } else {
+            const style = document.head.appendChild(createStyleElement(styleNonce(styles)));
+            loaded = styleApplied(style);
+        }
+        documentStyles.set(key, loaded);
+    }
+    return loaded;
+}
+
+/** Attaches (or reuses) an open shadow root on `host` and puts the widget styles inside it. */
+function createShadowLayer(host: HTMLElement, styles: StyleOptions): { root: ShadowRoot; dispose: () => void; loaded: Promise<void> } {
+    const root = host.shadowRoot ?? host.attachShadow({ mode: "open" });
+    let style: HTMLElement;
+    let loaded: Promise<void>;
+    if (styles.cssUrl) {
+        const stylesheet = createStylesheetLink(styles.cssUrl, styleNonce(styles));
+        style = root.appendChild(stylesheet.link);
+        loaded = stylesheet.loaded;
+    } else {
+        const inline = root.appendChild(createStyleElement(styleNonce(styles)));
+        style = inline;
+        loaded = styleApplied(inline);
     }
+    return {
+        root,
+        dispose: () => style.remove(),
+        loaded,
+    };
 }
@@ -0,0 +1,389 @@
+// Built-in UI strings. Hosts can pick a locale and override individual
+// strings; the config endpoint can deliver its own overrides as well.
+
+export type UiStrings = {
+  placeholder: string;
+  dismiss: string;
+  openChat: string;
+  closeChat: string;
+  stop: string;
+  edit: string;
+  regenerate: string;
+  newConversation: string;
+  copy: string;
+  copied: string;
+  requestFailed: string;
+  rateLimited: string;
+  /** `{status}` is replaced with the HTTP status code */
+  serverError: string;
+  timeout: string;
+  networkError: string;
+  /** `{seconds}` is replaced with the time left until sending is allowed again */
+  retryCountdown: string;
+  feedbackUp: string;
+  feedbackDown: string;
+  feedbackPlaceholder: string;
+  feedbackSubmit: string;
+  feedbackSkip: string;
+  feedbackThanks: string;
+  feedbackFailed: string;
+  attach: string;
+  /** `{name}` is replaced with the file name */
+  removeAttachment: string;
+  dropFiles: string;
+  /** `{name}` and `{max}` (e.g. "10 MB") are replaced */
+  attachmentTooLarge: string;
+  /** `{name}` is replaced with the file name */
+  attachmentTypeNotAllowed: string;
+  /** `{max}` is replaced with the attachment limit */
+  tooManyAttachments: string;
+  attachmentUploadFailed: string;
+  send: string;
+  messageTooLong: string;
+  /** `{count}` and `{max}` are replaced with the draft length and the limit */
+  characterCount: string;
+  chatTitle: string;
+  messagesLabel: string;
+  messageLabel: string;
+  typing: string;
+  suggestions: string;
+  exportTranscript: string;
+  exportMarkdown: string;
+  exportJson: string;
+  exportPrint: string;
+  emailTranscript: string;
+  emailPlaceholder: string;
+  emailSend: string;
+  emailSent: string;
+  emailFailed: string;
+  transcriptTitle: string;
+  transcriptYou: string;
+  transcriptAssistant: string;
+  agentConnecting: string;
+  /** `{name}` is replaced with the agent's name */
+  agentConnected: string;
+  /** `{name}` is replaced with the agent's name */
+  agentTyping: string;
+  agentEnd: string;
+  agentEnded: string;
+  transcriptAgent: string;
+  /** default submit button of forms in replies */
+  formSubmit: string;
+  formSubmitted: string;
+  formFailed: string;
+  /** collapsible list of documents cited by an AI reply */
+  sourcesTitle: string;
+  sourceLabel: string;
+  /** teaser bubble next to the popup launcher when the config has no greeting */
+  teaser: string;
+  unreadMessages: string;
+  /** floating button over text highlighted on the host page */
+  askAboutSelection: string;
+  askingAbout: string;
+  removeSelection: string;
+};
+
+export type Locale = "cs" | "sk" | "de" | "en";
+
+const en: UiStrings = {
+  placeholder: "Type your message…",
+  dismiss: "Dismiss",
+  openChat: "Open chat",
+  closeChat: "Close chat",
+  stop: "Stop",
+  edit: "Edit",
+  regenerate: "Regenerate",
+  newConversation: "Start new conversation",
+  copy: "Copy",
+  copied: "Copied",
+  requestFailed: "Chat request failed.",
+  rateLimited: "Rate limit exceeded for this configuration.",
+  serverError: "Server error ({status})",
+  timeout: "The server took too long to respond.",
+  networkError: "Can't reach the server. Check your connection.",
+  retryCountdown: "You can try again in {seconds} s.",
+  feedbackUp: "Helpful",
+  feedbackDown: "Not helpful",
+  feedbackPlaceholder: "Tell us more (optional)",
+  feedbackSubmit: "Send",
+  feedbackSkip: "Skip",
+  feedbackThanks: "Thanks for your feedback",
+  feedbackFailed: "Couldn't send your feedback. Please try again.",
+  attach: "Attach files",
+  removeAttachment: "Remove {name}",
+  dropFiles: "Drop files to attach",
+  attachmentTooLarge: "{name} is larger than {max}.",
+  attachmentTypeNotAllowed: "{name} has an unsupported file type.",
+  tooManyAttachments: "You can attach at most {max} files.",
+  attachmentUploadFailed: "Upload failed",
+  send: "Send",
+  messageTooLong: "Message is too long",
+  characterCount: "{count} / {max}",
+  chatTitle: "Chat",
+  messagesLabel: "Conversation",
+  messageLabel: "Message",
+  typing: "The assistant is typing…",
+  suggestions: "Suggested questions",
+  exportTranscript: "Export",
+  exportMarkdown: "Download as Markdown",
+  exportJson: "Download as JSON",
+  exportPrint: "Print",
+  emailTranscript: "Email me this conversation",
+  emailPlaceholder: "Your email",
+  emailSend: "Send",
+  emailSent: "The conversation is on its way to your inbox.",
+  emailFailed: "The email could not be sent.",
+  transcriptTitle: "Conversation transcript",
+  transcriptYou: "You",
+  transcriptAssistant: "Assistant",
+  agentConnecting: "Connecting you to an agent…",
+  agentConnected: "You're chatting with {name}",
+  agentTyping: "{name} is typing…",
+  agentEnd: "Back to the assistant",
+  agentEnded: "The chat with the agent has ended. The assistant is back.",
+  transcriptAgent: "Agent",
+  formSubmit: "Send",
+  formSubmitted: "Thanks, we've received it.",
+  formFailed: "Couldn't send the form. Please try again.",
+  sourcesTitle: "Sources",
+  sourceLabel: "Source {n}",
+  teaser: "Hi! Can I help you with anything?",
+  unreadMessages: "{count} unread",
+  askAboutSelection: "Ask about selection",
+  askingAbout: "Asking about",
+  removeSelection: "Remove quoted text",
+};
+
+const cs: UiStrings = {
+  placeholder: "Napište svou zprávu…",
+  dismiss: "Zavřít",
+  openChat: "Otevřít chat",
+  closeChat: "Zavřít chat",
+  stop: "Zastavit",
+  edit: "Upravit",
+  regenerate: "Vygenerovat znovu",
+  newConversation: "Začít novou konverzaci",
+  copy: "Kopírovat",
+  copied: "Zkopírováno",
+  requestFailed: "Odeslání zprávy se nezdařilo.",
+  rateLimited: "Byl překročen limit požadavků pro tuto konfiguraci.",
+  serverError: "Chyba serveru ({status})",
+  timeout: "Server neodpověděl včas.",
+  networkError: "Server není dostupný. Zkontrolujte připojení.",
+  retryCountdown: "Znovu to můžete zkusit za {seconds} s.",
+  feedbackUp: "Užitečné",
+  feedbackDown: "Neužitečné",
+  feedbackPlaceholder: "Řekněte nám víc (nepovinné)",
+  feedbackSubmit: "Odeslat",
+  feedbackSkip: "Přeskočit",
+  feedbackThanks: "Děkujeme za zpětnou vazbu",
+  feedbackFailed: "Zpětnou vazbu se nepodařilo odeslat. Zkuste to prosím znovu.",
+  attach: "Přiložit soubory",
+  removeAttachment: "Odebrat {name}",
+  dropFiles: "Přetáhněte soubory sem",
+  attachmentTooLarge: "{name} je větší než {max}.",
+  attachmentTypeNotAllowed: "Typ souboru {name} není podporován.",
+  tooManyAttachments: "Přiložit lze nejvýše {max} souborů.",
+  attachmentUploadFailed: "Nahrání selhalo",
+  send: "Odeslat",
+  messageTooLong: "Zpráva je příliš dlouhá",
+  characterCount: "{count} / {max}",
+  chatTitle: "Chat",
+  messagesLabel: "Konverzace",
+  messageLabel: "Zpráva",
+  typing: "Asistent píše…",
+  suggestions: "Navrhované otázky",
+  exportTranscript: "Exportovat",
+  exportMarkdown: "Stáhnout jako Markdown",
+  exportJson: "Stáhnout jako JSON",
+  exportPrint: "Vytisknout",
+  emailTranscript: "Poslat konverzaci e-mailem",
+  emailPlaceholder: "Váš e-mail",
+  emailSend: "Odeslat",
+  emailSent: "Konverzace je na cestě do vaší schránky.",
+  emailFailed: "E-mail se nepodařilo odeslat.",
+  transcriptTitle: "Přepis konverzace",
+  transcriptYou: "Vy",
+  transcriptAssistant: "Asistent",
+  agentConnecting: "Spojujeme vás s operátorem…",
+  agentConnected: "Píšete si s: {name}",
+  agentTyping: "{name} píše…",
+  agentEnd: "Zpět k asistentovi",
+  agentEnded: "Chat s operátorem skončil. Znovu odpovídá asistent.",
+  transcriptAgent: "Operátor",
+  formSubmit: "Odeslat",
+  formSubmitted: "Děkujeme, máme to.",
+  formFailed: "Formulář se nepodařilo odeslat. Zkuste to prosím znovu.",
+  sourcesTitle: "Zdroje",
+  sourceLabel: "Zdroj {n}",
+  teaser: "Dobrý den! Můžu vám s něčím pomoci?",
+  unreadMessages: "nepřečteno: {count}",
+  askAboutSelection: "Zeptat se na výběr",
+  askingAbout: "Dotaz k textu",
+  removeSelection: "Odebrat citovaný text",
+};
+
+const sk: UiStrings = {
+  placeholder: "Napíšte svoju správu…",
+  dismiss: "Zavrieť",
+  openChat: "Otvoriť chat",
+  closeChat: "Zavrieť chat",
+  stop: "Zastaviť",
+  edit: "Upraviť",
+  regenerate: "Vygenerovať znova",
+  newConversation: "Začať novú konverzáciu",
+  copy: "Kopírovať",
+  copied: "Skopírované",
+  requestFailed: "Odoslanie správy zlyhalo.",
+  rateLimited: "Bol prekročený limit požiadaviek pre túto konfiguráciu.",
+  serverError: "Chyba servera ({status})",
+  timeout: "Server neodpovedal včas.",
+  networkError: "Server nie je dostupný. Skontrolujte pripojenie.",
+  retryCountdown: "Znova to môžete skúsiť o {seconds} s.",
+  feedbackUp: "Užitočné",
+  feedbackDown: "Neužitočné",
+  feedbackPlaceholder: "Povedzte nám viac (nepovinné)",
+  feedbackSubmit: "Odoslať",
+  feedbackSkip: "Preskočiť",
+  feedbackThanks: "Ďakujeme za spätnú väzbu",
+  feedbackFailed: "Spätnú väzbu sa nepodarilo odoslať. Skúste to prosím znova.",
+  attach: "Priložiť súbory",
+  removeAttachment: "Odobrať {name}",
+  dropFiles: "Pretiahnite súbory sem",
+  attachmentTooLarge: "{name} je väčší ako {max}.",
+  attachmentTypeNotAllowed: "Typ súboru {name} nie je podporovaný.",
+  tooManyAttachments: "Priložiť možno najviac {max} súborov.",
+  attachmentUploadFailed: "Nahrávanie zlyhalo",
+  send: "Odoslať",
+  messageTooLong: "Správa je príliš dlhá",
+  characterCount: "{count} / {max}",
+  chatTitle: "Chat",
+  messagesLabel: "Konverzácia",
+  messageLabel: "Správa",
+  typing: "Asistent píše…",
+  suggestions: "Navrhované otázky",
+  exportTranscript: "Exportovať",
+  exportMarkdown: "Stiahnuť ako Markdown",
+  exportJson: "Stiahnuť ako JSON",
+  exportPrint: "Vytlačiť",
+  emailTranscript: "Poslať konverzáciu e-mailom",
+  emailPlaceholder: "Váš e-mail",
+  emailSend: "Odoslať",
+  emailSent: "Konverzácia je na ceste do vašej schránky.",
+  emailFailed: "E-mail sa nepodarilo odoslať.",
+  transcriptTitle: "Prepis konverzácie",
+  transcriptYou: "Vy",
+  transcriptAssistant: "Asistent",
+  agentConnecting: "Spájame vás s operátorom…",
+  agentConnected: "Píšete si s: {name}",
+  agentTyping: "{name} píše…",
+  agentEnd: "Späť k asistentovi",
+  agentEnded: "Chat s operátorom sa skončil. Znova odpovedá asistent.",
+  transcriptAgent: "Operátor",
+  formSubmit: "Odoslať",
+  formSubmitted: "Ďakujeme, máme to.",
+  formFailed: "Formulár sa nepodarilo odoslať. Skúste to prosím znova.",
+  sourcesTitle: "Zdroje",
+  sourceLabel: "Zdroj {n}",
+  teaser: "Dobrý deň! Môžem vám s niečím pomôcť?",
+  unreadMessages: "neprečítané: {count}",
+  askAboutSelection: "Opýtať sa na výber",
+  askingAbout: "Otázka k textu",
+  removeSelection: "Odstrániť citovaný text",
+};
+
+const de: UiStrings = {
+  placeholder: "Schreiben Sie Ihre Nachricht…",
+  dismiss: "Schließen",
+  openChat: "Chat öffnen",
+  closeChat: "Chat schließen",
+  stop: "Stopp",
+  edit: "Bearbeiten",
+  regenerate: "Neu generieren",
+  newConversation: "Neue Unterhaltung beginnen",
+  copy: "Kopieren",
+  copied: "Kopiert",
+  requestFailed: "Die Anfrage ist fehlgeschlagen.",
+  rateLimited: "Das Anfragelimit für diese Konfiguration wurde überschritten.",
+  serverError: "Serverfehler ({status})",
+  timeout: "Der Server hat nicht rechtzeitig geantwortet.",
+  networkError: "Der Server ist nicht erreichbar. Bitte prüfen Sie Ihre Verbindung.",
+  retryCountdown: "Sie können es in {seconds} s erneut versuchen.",
+  feedbackUp: "Hilfreich",
+  feedbackDown: "Nicht hilfreich",
+  feedbackPlaceholder: "Erzählen Sie uns mehr (optional)",
+  feedbackSubmit: "Senden",
+  feedbackSkip: "Überspringen",
+  feedbackThanks: "Danke für Ihr Feedback",
+  feedbackFailed: "Ihr Feedback konnte nicht gesendet werden. Bitte versuchen Sie es erneut.",
+  attach: "Dateien anhängen",
+  removeAttachment: "{name} entfernen",
+  dropFiles: "Dateien hier ablegen",
+  attachmentTooLarge: "{name} ist größer als {max}.",
+  attachmentTypeNotAllowed: "Der Dateityp von {name} wird nicht unterstützt.",
+  tooManyAttachments: "Sie können höchstens {max} Dateien anhängen.",
+  attachmentUploadFailed: "Hochladen fehlgeschlagen",
+  send: "Senden",
+  messageTooLong: "Nachricht ist zu lang",
+  characterCount: "{count} / {max}",
+  chatTitle: "Chat",
+  messagesLabel: "Unterhaltung",
+  messageLabel: "Nachricht",
+  typing: "Der Assistent schreibt…",
+  suggestions: "Vorgeschlagene Fragen",
+  exportTranscript: "Exportieren",
+  exportMarkdown: "Als Markdown herunterladen",
+  exportJson: "Als JSON herunterladen",
+  exportPrint: "Drucken",
+  emailTranscript: "Unterhaltung per E-Mail senden",
+  emailPlaceholder: "Ihre E-Mail-Adresse",
+  emailSend: "Senden",
+  emailSent: "Die Unterhaltung ist auf dem Weg in Ihr Postfach.",
+  emailFailed: "Die E-Mail konnte nicht gesendet werden.",
+  transcriptTitle: "Gesprächsverlauf",
+  transcriptYou: "Sie",
+  transcriptAssistant: "Assistent",
+  agentConnecting: "Sie werden mit einem Mitarbeiter verbunden…",
+  agentConnected: "Sie chatten mit {name}",
+  agentTyping: "{name} schreibt…",
+  agentEnd: "Zurück zum Assistenten",
+  agentEnded: "Der Chat mit dem Mitarbeiter ist beendet. Der Assistent ist wieder da.",
+  transcriptAgent: "Mitarbeiter",
+  formSubmit: "Senden",
+  formSubmitted: "Danke, ist angekommen.",
+  formFailed: "Das Formular konnte nicht gesendet werden. Bitte versuchen Sie es erneut.",
+  sourcesTitle: "Quellen",
+  sourceLabel: "Quelle {n}",
+  teaser: "Hallo! Kann ich Ihnen weiterhelfen?",
+  unreadMessages: "{count} ungelesen",
+  askAboutSelection: "Zur Auswahl fragen",
+  askingAbout: "Frage zu",
+  removeSelection: "Zitierten Text entfernen",
+};
+
+const tables: Record<Locale, UiStrings> = { cs, sk, de, en };
+
+/** Maps a BCP 47 tag (e.g. "de-AT") to a built-in locale, falling back to the browser language, then English. */
+export function resolveLocale(locale?: string | null): Locale {
+  const candidates = [locale, typeof navigator !== "undefined" ? navigator.language : undefined];
+  for (const candidate of candidates) {
+    const lang = candidate?.toLowerCase().split(/[-_]/)[0];
+    if (lang && lang in tables) return lang as Locale;
+  }
+  return "en";
+}
+
+export function getStrings(locale?: string | null, ...overrides: (Partial<UiStrings> | undefined)[]): UiStrings {
+  const out = { ...tables[resolveLocale(locale)] };
+  for (const o of overrides) {
+    if (!o) continue;
+    for (const key of Object.keys(o) as (keyof UiStrings)[]) {
+      if (typeof o[key] === "string") out[key] = o[key];
+    }
+  }
+  return out;
+}
+
+export function formatString(template: string, values: Record<string, string | number>) {
+  return template.replace(/\{(\w+)\}/g, (m, key: string) => (key in values ? String(values[key]) : m));
+}
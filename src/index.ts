@@ -0,0 +1,53 @@
+// npm entry for apps that bring their own React: the widget component, the API
+// client and their types. Styles ship separately as "velior-ai-chat/style.css";
+// the CDN bundle (window.VeliorAiChat and <velior-ai-chat>) is src/entry-cdn.tsx.
+import "./index.css";
+
+export { ChatWidget, type ChatWidgetHandle, type ChatWidgetProps } from "./components/ChatWidget";
+export {
+  ChatClient,
+  ApiError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  StreamError,
+  TimeoutError,
+  isAbortError,
+  type ActionRequest,
+  type AgentConnection,
+  type AgentEvent,
+  type AgentStatus,
+  type AuthTokenProvider,
+  type BlockAction,
+  type ChatAttachment,
+  type ChatBlock,
+  type ChatClientOptions,
+  type ChatConfig,
+  type ChatContext,
+  type ChatIdentity,
+  type ChatRequest,
+  type ChatResponse,
+  type ChatSource,
+  type ChatStreamEvent,
+  type FeedbackRating,
+  type FeedbackRequest,
+  type FormField,
+  type FormSubmission,
+  type HandoffSession,
+  type PageContext,
+  type Provider,
+  type RequestOptions,
+  type TranscriptEmailRequest,
+  type UploadOptions,
+} from "./api/ChatClient";
+export type { ChatTransport } from "./api/transport";
+export { MockTransport, type MockErrorKind, type MockReply, type MockTransportOptions } from "./api/MockTransport";
+export type { ChatEventDetails, ChatEventHandlers, ChatMessage } from "./types";
+export type { ChatTheme, ThemeMode } from "./theme/theme";
+export type { Locale, UiStrings } from "./i18n/strings";
+export {
+  WebStorageConversationStore,
+  type ConversationStore,
+  type PersistedConversation,
+  type PersistenceMode,
+} from "./storage/conversationStore";
@@ -2,6 +2,7 @@ import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
 import "./index.css";
+import "./demo.css";
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { renderMarkdown } from "./renderMarkdown";
+
+function render(text: string) {
+  const container = document.createElement("div");
+  container.appendChild(renderMarkdown(text));
+  return container;
+}
+
+// any attribute that would run script or pull in styles
+function eventOrStyleAttributes(container: HTMLElement) {
+  return Array.from(container.querySelectorAll("*")).flatMap((el) =>
+    el.getAttributeNames().filter((name) => name.startsWith("on") || name === "style")
+  );
+}
+
+describe("renderMarkdown", () => {
+  it("drops event handler attributes", () => {
+    const container = render('<img src="x" onerror="alert(1)">');
+    expect(container.querySelector("img")).toBeNull();
+    expect(eventOrStyleAttributes(container)).toEqual([]);
+  });
+
+  it.each([
+    "[x](javascript:alert(1))",
+    "[x](JaVaScRiPt:alert(1))",
+    "[x](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)",
+    "[x](vbscript:msgbox(1))",
+    "[x](VBScript:msgbox(1))",
+    '<a href="java&#x09;script:alert(1)">x</a>',
+    '<a href="javascript&colon;alert(1)">x</a>',
+  ])("drops unsafe link targets: %s", (text) => {
+    const container = render(text);
+    for (const a of container.querySelectorAll("a")) {
+      expect(a.getAttribute("href") ?? "").not.toMatch(/^\s*(javascript|data|vbscript)/i);
+    }
+    expect(container.innerHTML).not.toMatch(/javascript:|vbscript:|data:text/i);
+  });
+
+  it("removes scripts, also inside svg", () => {
+    const container = render("<svg><script>alert(1)</script></svg><script>alert(2)</script>");
+    expect(container.querySelector("svg, script")).toBeNull();
+    expect(container.textContent).not.toContain("alert");
+  });
+
+  it("keeps task list checkboxes read-only and drops other inputs", () => {
+    const container = render('- [x] done\n\n<input type="text" value="x"><input type="password">');
+    const inputs = container.querySelectorAll("input");
+    expect(inputs).toHaveLength(1);
+    expect(inputs[0].getAttribute("type")).toBe("checkbox");
+    expect(inputs[0].hasAttribute("disabled")).toBe(true);
+  });
+
+  it("removes iframes and forms", () => {
+    const container = render(
+      '<iframe src="https://evil.test"></iframe><form action="https://evil.test"><button>Go</button></form>'
+    );
+    expect(container.querySelector("iframe, form, button")).toBeNull();
+  });
+
+  it("removes style attributes and style elements", () => {
+    const container = render('<p style="position:fixed;inset:0">x</p><style>body{display:none}</style>');
+    expect(container.querySelector("style")).toBeNull();
+    expect(eventOrStyleAttributes(container)).toEqual([]);
+  });
+
+  it("opens kept links in a new tab without an opener", () => {
+    const container = render('[docs](https://example.com) <a href="/help" target="_self" rel="opener">help</a>');
+    const links = container.querySelectorAll("a");
+    expect(links).toHaveLength(2);
+    for (const a of links) {
+      expect(a.getAttribute("target")).toBe("_blank");
+      expect(a.getAttribute("rel")).toBe("noopener noreferrer");
+    }
+    expect(links[0].getAttribute("href")).toBe("https://example.com");
+  });
+});
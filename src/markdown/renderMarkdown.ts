@@ -0,0 +1,164 @@
+import DOMPurify from "dompurify";
+import { Marked } from "marked";
+import type { ChatSource } from "../api/blocks";
+
+// Markdown → sanitized DOM nodes for AI replies. Everything the model (or a
+// compromised backend) sends passes through the allow-list below before it
+// reaches the page. The result is a fragment rather than an HTML string so no
+// caller needs innerHTML; DOMPurify parses through its own "dompurify" Trusted
+// Types policy where the page enforces them.
+
+const marked = new Marked({ gfm: true, breaks: true });
+
+const ALLOWED_TAGS = [
+  "p", "br", "hr", "strong", "em", "del", "code", "pre", "blockquote",
+  "ul", "ol", "li", "h1", "h2", "h3", "h4", "h5", "h6", "a",
+  "table", "thead", "tbody", "tr", "th", "td", "input",
+];
+
+const ALLOWED_ATTR = ["href", "title", "class", "start", "align", "type", "checked", "disabled"];
+
+// http(s), mail and phone links plus scheme-less values (relative paths, plain
+// attribute values like type="checkbox"); everything else, e.g. javascript: or data:, is dropped
+const ALLOWED_URI_REGEXP = /^(?:(?:https?|mailto|tel):|[^a-z]|[a-z+.-]+(?:[^a-z+.\-:]|$))/i;
+
+// own instance so our hooks don't leak into a host page that also uses DOMPurify;
+// created on first use so importing the npm build during SSR doesn't touch `window`
+let purifier: ReturnType<typeof DOMPurify> | null = null;
+
+function getPurifier() {
+  if (purifier) return purifier;
+  purifier = DOMPurify(window);
+  purifier.addHook("afterSanitizeAttributes", (node) => {
+    if (node.tagName === "A") {
+      node.setAttribute("target", "_blank");
+      node.setAttribute("rel", "noopener noreferrer");
+    }
+    // GFM task lists are the only inputs we keep, and only as read-only checkboxes
+    if (node.tagName === "INPUT") {
+      if (node.getAttribute("type") !== "checkbox") {
+        node.remove();
+        return;
+      }
+      node.setAttribute("disabled", "");
+    }
+    // `class` is only allowed for code highlighting hints (language-xyz)
+    const cls = node.getAttribute("class");
+    if (cls !== null && !/^language-[\w-]+$/.test(cls)) {
+      node.removeAttribute("class");
+    }
+  });
+  return purifier;
+}
+
+export function sanitizeHtml(html: string): DocumentFragment {
+  return getPurifier().sanitize(html, {
+    ALLOWED_TAGS,
+    ALLOWED_ATTR,
+    ALLOWED_URI_REGEXP,
+    ALLOW_DATA_ATTR: false,
+    RETURN_DOM_FRAGMENT: true,
+  });
+}
+
+export type CopyLabels = { copy?: string; copied?: string };
+
+/** Wraps each code block with a copy button; the widget handles clicks via `data-velior-copy`. */
+function addCopyButtons(fragment: DocumentFragment, labels: CopyLabels) {
+  fragment.querySelectorAll("pre").forEach((pre) => {
+    const wrapper = document.createElement("div");
+    wrapper.className = "velior-code relative";
+
+    const button = document.createElement("button");
+    button.type = "button";
+    button.textContent = labels.copy ?? "Copy";
+    button.setAttribute("data-velior-copy", "");
+    button.className =
+      "absolute top-1.5 right-1.5 px-2 py-0.5 rounded text-xs bg-neutral-700 text-neutral-100 opacity-80 hover:opacity-100";
+
+    pre.replaceWith(wrapper);
+    wrapper.appendChild(button);
+    wrapper.appendChild(pre);
+  });
+}
+
+export type MarkdownLabels = CopyLabels & {
+  /** accessible name of a citation marker, e.g. "Source {n}" */
+  source?: string;
+};
+
+const CITATION = /\[(\d{1,3})\]/;
+
+/**
+ * Turns `[n]` markers that point at an existing source into footnote buttons;
+ * the widget handles clicks and hovers via `data-velior-cite`. Markers in code
+ * and inside links are left alone, as are numbers without a matching source.
+ */
+function linkCitations(fragment: DocumentFragment, sources: ChatSource[], label = "Source {n}") {
+  const walker = document.createTreeWalker(fragment, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    if (CITATION.test(node.data) && !node.parentElement?.closest("code, pre, a")) nodes.push(node);
+  }
+
+  for (const node of nodes) {
+    const parts = node.data.split(new RegExp(CITATION.source, "g"));
+    const replacement = document.createDocumentFragment();
+    // split() with a capture group alternates text and marker numbers
+    parts.forEach((part, i) => {
+      const n = Number(part);
+      const source = i % 2 === 1 ? sources[n - 1] : undefined;
+      if (!source) {
+        if (part) replacement.append(i % 2 === 1 ? `[${part}]` : part);
+        return;
+      }
+      const sup = document.createElement("sup");
+      const button = document.createElement("button");
+      button.type = "button";
+      button.textContent = String(n);
+      button.setAttribute("data-velior-cite", String(n));
+      button.setAttribute("aria-label", `${label.replace("{n}", String(n))}: ${source.title}`);
+      button.className =
+        "velior-cite mx-0.5 px-1 rounded text-[0.7em] font-semibold bg-velior-primary text-velior-primary-text hover:brightness-110";
+      sup.appendChild(button);
+      replacement.appendChild(sup);
+    });
+    node.replaceWith(replacement);
+  }
+}
+
+export function renderMarkdown(text: string, labels: MarkdownLabels = {}, sources: ChatSource[] = []): DocumentFragment {
+  const fragment = sanitizeHtml(marked.parse(text, { async: false }));
+  addCopyButtons(fragment, labels);
+  if (sources.length > 0) linkCitations(fragment, sources, labels.source);
+  return fragment;
+}
+
+/** Copies the code block belonging to a clicked copy button. Returns true if the click was handled. */
+export function handleCopyClick(target: EventTarget | null, labels: CopyLabels = {}): boolean {
+  const button = target instanceof Element ? target.closest("[data-velior-copy]") : null;
+  if (!button) return false;
+  const code = button.parentElement?.querySelector("pre")?.textContent ?? "";
+  void navigator.clipboard?.writeText(code).then(
+    () => {
+      button.textContent = labels.copied ?? "Copied";
+      setTimeout(() => (button.textContent = labels.copy ?? "Copy"), 1500);
+    },
+    () => {}
+  );
+  return true;
+}
+
+/** Number of the citation marker at `target` (1-based), or null */
+export function citationAt(target: EventTarget | null): number | null {
+  const button = target instanceof Element ? target.closest("[data-velior-cite]") : null;
+  return button ? Number(button.getAttribute("data-velior-cite")) : null;
+}
+
+/** Plain text of a Markdown string, for places outside the bubbles such as the popup teaser */
+export function markdownToText(text: string): string {
+  if (!text) return "";
+  const fragment = sanitizeHtml(marked.parse(text, { async: false }));
+  return (fragment.textContent ?? "").replace(/\s+/g, " ").trim();
+}
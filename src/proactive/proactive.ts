@@ -0,0 +1,118 @@
+// Proactive engagement for the popup: decides when to greet a visitor who
+// hasn't opened the chat yet. Triggers only arm on matching paths, the first
+// one to fire wins, and a per-visitor frequency cap kept in localStorage stops
+// returning visitors from being prompted on every page.
+
+export interface ProactiveOptions {
+  /** What a trigger does: show the teaser bubble next to the launcher (default) or open the panel */
+  action?: "teaser" | "open";
+  /** Teaser text; defaults to the config's `initialMessage` */
+  message?: string;
+  /** Seconds on the page */
+  delay?: number;
+  /** Percentage of the page scrolled (0–100) */
+  scrollDepth?: number;
+  /** The pointer leaves the window through the top edge (desktop only) */
+  exitIntent?: boolean;
+  /** Path patterns with `*` wildcards, e.g. "/pricing*"; all paths when empty */
+  include?: string[];
+  /** Path patterns where nothing triggers; wins over `include` */
+  exclude?: string[];
+  /** Prompts per visitor at most (default 3, 0 = no limit) */
+  maxPrompts?: number;
+  /** Hours before the same visitor is prompted again (default 24) */
+  cooldownHours?: number;
+}
+
+interface PromptHistory {
+  count: number;
+  /** epoch millis of the last prompt */
+  lastAt: number;
+}
+
+export function proactiveKey(apiUrl: string, configCode: string) {
+  return `velior-ai-proactive:${apiUrl}:${configCode || "DEFAULT"}`;
+}
+
+function patternToRegExp(pattern: string) {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+export function matchesPath(path: string, include: string[] = [], exclude: string[] = []) {
+  if (exclude.some((p) => patternToRegExp(p).test(path))) return false;
+  return include.length === 0 || include.some((p) => patternToRegExp(p).test(path));
+}
+
+function readHistory(key: string): PromptHistory {
+  try {
+    const data = JSON.parse(window.localStorage.getItem(key) ?? "null") as PromptHistory | null;
+    if (data && typeof data.count === "number" && typeof data.lastAt === "number") return data;
+  } catch {
+    /* storage disabled or corrupt */
+  }
+  return { count: 0, lastAt: 0 };
+}
+
+function recordPrompt(key: string) {
+  const { count } = readHistory(key);
+  try {
+    window.localStorage.setItem(key, JSON.stringify({ count: count + 1, lastAt: Date.now() }));
+  } catch {
+    // without storage the cap only lasts for this page
+  }
+}
+
+function isCapped(key: string, options: ProactiveOptions) {
+  const { count, lastAt } = readHistory(key);
+  const maxPrompts = options.maxPrompts ?? 3;
+  const cooldownMs = (options.cooldownHours ?? 24) * 60 * 60 * 1000;
+  return (maxPrompts > 0 && count >= maxPrompts) || Date.now() - lastAt < cooldownMs;
+}
+
+/**
+ * Arms the configured triggers and calls `onTrigger` once, when the first of
+ * them fires. Without any trigger configured it fires right away. Returns a
+ * function that disarms everything (e.g. when the visitor opens the chat).
+ */
+export function watchProactive(options: ProactiveOptions, key: string, onTrigger: () => void): () => void {
+  const allowed = () =>
+    matchesPath(location.pathname, options.include, options.exclude) && !isCapped(key, options);
+  if (!allowed()) return () => {};
+
+  const cleanups: (() => void)[] = [];
+  const stop = () => cleanups.splice(0).forEach((fn) => fn());
+  const fire = () => {
+    stop();
+    // single-page apps may have navigated elsewhere since the triggers were armed
+    if (!allowed()) return;
+    recordPrompt(key);
+    onTrigger();
+  };
+
+  const hasTrigger = options.delay !== undefined || options.scrollDepth !== undefined || !!options.exitIntent;
+  if (!hasTrigger || options.delay !== undefined) {
+    const timer = setTimeout(fire, (options.delay ?? 0) * 1000);
+    cleanups.push(() => clearTimeout(timer));
+  }
+
+  if (options.scrollDepth !== undefined) {
+    const depth = options.scrollDepth;
+    const onScroll = () => {
+      const scrollable = document.documentElement.scrollHeight - window.innerHeight;
+      if (scrollable <= 0 || (window.scrollY / scrollable) * 100 >= depth) fire();
+    };
+    window.addEventListener("scroll", onScroll, { passive: true });
+    cleanups.push(() => window.removeEventListener("scroll", onScroll));
+  }
+
+  if (options.exitIntent) {
+    const onMouseOut = (e: MouseEvent) => {
+      if (!e.relatedTarget && e.clientY <= 0) fire();
+    };
+    document.addEventListener("mouseout", onMouseOut);
+    cleanups.push(() => document.removeEventListener("mouseout", onMouseOut));
+  }
+
+  return stop;
+}
@@ -0,0 +1,104 @@
+import type { HandoffSession } from "../api/agent";
+import type { ChatMessage } from "../types";
+
+export interface PersistedConversation {
+  messages: ChatMessage[];
+  followups: string[];
+  scopeId?: string;
+  /** live-agent session still in progress, reconnected after a reload */
+  handoff?: HandoffSession;
+  /** epoch millis of the last save, used for expiry */
+  savedAt: number;
+}
+
+/** Storage backend for conversations. Implement this to persist somewhere other than Web Storage. */
+export interface ConversationStore {
+  load(key: string): PersistedConversation | null;
+  save(key: string, conversation: PersistedConversation): void;
+  clear(key: string): void;
+}
+
+export type PersistenceMode = "local" | "session" | "none";
+
+export const DEFAULT_CONVERSATION_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * `userId` keeps logged-in visitors sharing a browser from seeing each other's conversations.
+ * The widget only knows it up front when `identity` is a static object, not a function.
+ */
+export function conversationKey(apiUrl: string, configCode: string, userId?: string) {
+  const key = `velior-ai-chat:${apiUrl}:${configCode || "DEFAULT"}`;
+  return userId ? `${key}:${userId}` : key;
+}
+
+export class WebStorageConversationStore implements ConversationStore {
+  private storage: Storage | null;
+  private ttl: number;
+
+  constructor(storage: Storage | null, ttl = DEFAULT_CONVERSATION_TTL) {
+    this.storage = storage;
+    this.ttl = ttl;
+  }
+
+  load(key: string): PersistedConversation | null {
+    try {
+      const raw = this.storage?.getItem(key);
+      if (!raw) return null;
+      const data = JSON.parse(raw) as PersistedConversation;
+      if (!Array.isArray(data.messages) || typeof data.savedAt !== "number") return null;
+      if (this.ttl > 0 && Date.now() - data.savedAt > this.ttl) {
+        this.clear(key);
+        return null;
+      }
+      return { ...data, followups: Array.isArray(data.followups) ? data.followups : [] };
+    } catch {
+      return null;
+    }
+  }
+
+  save(key: string, conversation: PersistedConversation) {
+    try {
+      this.storage?.setItem(key, JSON.stringify(conversation));
+    } catch {
+      // quota exceeded or storage disabled — persistence is best effort
+    }
+  }
+
+  clear(key: string) {
+    try {
+      this.storage?.removeItem(key);
+    } catch {
+      /* ignore */
+    }
+  }
+}
+
+const noopStore: ConversationStore = {
+  load: () => null,
+  save: () => {},
+  clear: () => {},
+};
+
+// accessing window.localStorage throws in some sandboxed iframes
+function getStorage(kind: "localStorage" | "sessionStorage"): Storage | null {
+  try {
+    return typeof window !== "undefined" ? window[kind] : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createConversationStore(
+  persistence: PersistenceMode | ConversationStore = "local",
+  ttl = DEFAULT_CONVERSATION_TTL
+): ConversationStore {
+  if (typeof persistence === "object") return persistence;
+  switch (persistence) {
+    case "local":
+      return new WebStorageConversationStore(getStorage("localStorage"), ttl);
+    case "session":
+      return new WebStorageConversationStore(getStorage("sessionStorage"), ttl);
+    default:
+      return noopStore;
+  }
+}
@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+
+// Branding for the widget. Every field is optional; values are exposed as
+// CSS custom properties (see tailwind.config.cjs) so styles pick them up
+// without re-rendering class names.
+
+export type ThemeMode = "light" | "dark" | "auto";
+
+export type ChatTheme = {
+  /** "auto" follows `prefers-color-scheme` (default) */
+  mode?: ThemeMode;
+  /** Brand color for user bubbles, the launcher and focus rings */
+  primaryColor?: string;
+  /** Text color used on top of `primaryColor` */
+  primaryTextColor?: string;
+  fontFamily?: string;
+  /** Corner radius of bubbles and the popup panel, e.g. "12px" */
+  radius?: string;
+  /** Image URL shown in the popup launcher instead of the default chat icon */
+  launcherIcon?: string;
+  /** Which bottom corner the popup launcher and panel sit in (default "right") */
+  position?: "left" | "right";
+  panelWidth?: string;
+  panelHeight?: string;
+};
+
+/** Later themes win; undefined fields don't override earlier ones. */
+export function mergeThemes(...themes: (ChatTheme | null | undefined)[]): ChatTheme {
+  const out: ChatTheme = {};
+  for (const theme of themes) {
+    if (!theme) continue;
+    for (const [key, value] of Object.entries(theme)) {
+      if (value !== undefined && value !== null && value !== "") {
+        (out as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+  return out;
+}
+
+export function themeToCssVars(theme: ChatTheme): Record<string, string> {
+  const vars: Record<string, string> = {};
+  if (theme.primaryColor) vars["--velior-primary"] = theme.primaryColor;
+  if (theme.primaryTextColor) vars["--velior-primary-text"] = theme.primaryTextColor;
+  if (theme.fontFamily) vars["--velior-font"] = theme.fontFamily;
+  if (theme.radius) vars["--velior-radius"] = theme.radius;
+  return vars;
+}
+
+export function applyCssVars(el: HTMLElement, theme: ChatTheme) {
+  for (const [name, value] of Object.entries(themeToCssVars(theme))) {
+    el.style.setProperty(name, value);
+  }
+}
+
+const darkQuery = () =>
+  typeof window !== "undefined" && typeof window.matchMedia === "function"
+    ? window.matchMedia("(prefers-color-scheme: dark)")
+    : null;
+
+export function isDarkMode(mode: ThemeMode = "auto"): boolean {
+  if (mode !== "auto") return mode === "dark";
+  return darkQuery()?.matches ?? false;
+}
+
+/** Calls `listener` whenever the resolved dark/light state may have changed. Returns an unsubscribe function. */
+export function watchColorScheme(listener: () => void): () => void {
+  const query = darkQuery();
+  if (!query) return () => {};
+  query.addEventListener("change", listener);
+  return () => query.removeEventListener("change", listener);
+}
+
+export function useDarkMode(mode: ThemeMode = "auto"): boolean {
+  const [systemDark, setSystemDark] = useState(() => isDarkMode("auto"));
+  useEffect(() => watchColorScheme(() => setSystemDark(isDarkMode("auto"))), []);
+  return mode === "auto" ? systemDark : mode === "dark";
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { renderTranscript, type TranscriptLabels } from "./transcript";
+
+const labels: TranscriptLabels = {
+  transcriptTitle: "Chat transcript",
+  transcriptYou: "You",
+  transcriptAssistant: "Assistant",
+  transcriptAgent: "Agent",
+  sourcesTitle: "Sources",
+};
+
+function render(messages: Parameters<typeof renderTranscript>[1]) {
+  const doc = document.implementation.createHTMLDocument("");
+  renderTranscript(doc, messages, { configCode: "TEST", exportedAt: 0, locale: "en" }, labels);
+  return doc;
+}
+
+describe("renderTranscript", () => {
+  it("keeps user text as text", () => {
+    const doc = render([{ role: "user", text: '<img src="x" onerror="alert(1)">\nsecond line' }]);
+    expect(doc.querySelector("img")).toBeNull();
+    expect(doc.querySelector(".user .text")?.textContent).toBe('<img src="x" onerror="alert(1)">\nsecond line');
+  });
+
+  it("renders replies through the sanitizing Markdown formatter", () => {
+    const doc = render([
+      {
+        role: "ai",
+        text: "**Hi** <script>alert(1)</script>[x](javascript:alert(1))",
+        sources: [{ title: "Docs", url: "https://example.com" }],
+      },
+    ]);
+    expect(doc.querySelector(".ai strong")?.textContent).toBe("Hi");
+    expect(doc.querySelector("script")).toBeNull();
+    expect(doc.body.innerHTML).not.toContain("javascript:");
+    expect(doc.querySelector(".sources li")?.textContent).toBe("Docs https://example.com");
+  });
+
+  it("sets the title, language and print styles", () => {
+    const doc = render([]);
+    expect(doc.title).toBe("Chat transcript");
+    expect(doc.documentElement.lang).toBe("en");
+    expect(doc.adoptedStyleSheets?.length || doc.querySelectorAll("style").length).toBe(1);
+  });
+});
@@ -0,0 +1,187 @@
+import type { UiStrings } from "../i18n/strings";
+import { renderMarkdown } from "../markdown/renderMarkdown";
+import type { ChatMessage } from "../types";
+
+// Transcript exports for visitors keeping a copy and for support tickets.
+// AI replies are Markdown already; the print view renders them with the same
+// sanitizing formatter as the bubbles.
+
+export interface TranscriptMeta {
+  configCode: string;
+  scopeId?: string;
+  /** epoch millis */
+  exportedAt: number;
+  /** used to format dates */
+  locale?: string;
+}
+
+export type TranscriptLabels = Pick<
+  UiStrings,
+  "transcriptTitle" | "transcriptYou" | "transcriptAssistant" | "transcriptAgent" | "sourcesTitle"
+>;
+
+function formatTime(at: number | undefined, locale?: string) {
+  return at ? new Date(at).toLocaleString(locale) : "";
+}
+
+function speaker(m: ChatMessage, labels: TranscriptLabels) {
+  if (m.role === "agent") return m.agentName ?? labels.transcriptAgent;
+  return m.role === "user" ? labels.transcriptYou : labels.transcriptAssistant;
+}
+
+export function transcriptToMarkdown(messages: ChatMessage[], meta: TranscriptMeta, labels: TranscriptLabels): string {
+  const out = [`# ${labels.transcriptTitle}`, "", `_${meta.configCode} · ${formatTime(meta.exportedAt, meta.locale)}_`];
+  for (const m of messages) {
+    const time = formatTime(m.sentAt, meta.locale);
+    out.push("", `**${speaker(m, labels)}**${time ? ` (${time})` : ""}:`, "");
+    if (m.quote) out.push(`> ${m.quote}`, "");
+    if (m.text) out.push(m.text);
+    for (const a of m.attachments ?? []) out.push(`- ${a.url ? `[${a.name}](${a.url})` : a.name}`);
+    if (m.sources) {
+      out.push("", `_${labels.sourcesTitle}:_`, "");
+      m.sources.forEach((s, i) => out.push(`${i + 1}. ${s.url ? `[${s.title}](${s.url})` : s.title}`));
+    }
+  }
+  return out.join("\n") + "\n";
+}
+
+export function transcriptToJson(messages: ChatMessage[], meta: TranscriptMeta): string {
+  const iso = (at?: number) => (at ? new Date(at).toISOString() : undefined);
+  return JSON.stringify(
+    {
+      configCode: meta.configCode,
+      scopeId: meta.scopeId,
+      exportedAt: iso(meta.exportedAt),
+      messages: messages.map((m) => ({
+        role: m.role,
+        text: m.text,
+        quote: m.quote,
+        sentAt: iso(m.sentAt),
+        id: m.id,
+        attachments: m.attachments,
+        feedback: m.feedback,
+        blocks: m.blocks,
+        sources: m.sources,
+        submitted: m.submitted,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+const PRINT_CSS = `
+  body { font: 14px/1.5 system-ui, sans-serif; color: #111; max-width: 720px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.4rem; margin-bottom: 0; }
+  .meta { color: #666; margin-bottom: 2rem; }
+  .message { margin: 0 0 1.25rem; break-inside: avoid; }
+  .who { font-weight: 600; }
+  .time { color: #666; font-weight: 400; margin-left: .5rem; }
+  .user .text { white-space: pre-wrap; }
+  pre { background: #f4f4f4; padding: .75rem; overflow-x: auto; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: .25rem .5rem; }
+  [data-velior-copy] { display: none; }
+  .sources { color: #444; font-size: .85rem; }
+  .sources .url { color: #666; word-break: break-all; }
+`;
+
+function element(doc: Document, tag: string, className?: string, text?: string) {
+  const el = doc.createElement(tag);
+  if (className) el.className = className;
+  if (text !== undefined) el.textContent = text;
+  return el;
+}
+
+function list(doc: Document, tag: "ul" | "ol", items: Node[]) {
+  const el = doc.createElement(tag);
+  for (const item of items) el.appendChild(element(doc, "li")).append(item);
+  return el;
+}
+
+function messageElement(doc: Document, m: ChatMessage, meta: TranscriptMeta, labels: TranscriptLabels) {
+  const el = element(doc, "div", `message ${m.role}`);
+  const who = element(doc, "div", "who", speaker(m, labels));
+  who.appendChild(element(doc, "span", "time", formatTime(m.sentAt, meta.locale)));
+  el.appendChild(who);
+  if (m.quote) el.appendChild(element(doc, "blockquote", undefined, m.quote));
+
+  const text = element(doc, "div", "text");
+  if (m.role === "user") text.textContent = m.text;
+  else text.appendChild(renderMarkdown(m.text));
+  el.appendChild(text);
+
+  if (m.attachments?.length) el.appendChild(list(doc, "ul", m.attachments.map((a) => doc.createTextNode(a.name))));
+  if (m.sources?.length) {
+    const sources = element(doc, "div", "sources", labels.sourcesTitle);
+    const items = m.sources.map((s) => {
+      const item = doc.createDocumentFragment();
+      item.append(s.title);
+      if (s.url) item.append(" ", element(doc, "span", "url", s.url));
+      return item;
+    });
+    sources.appendChild(list(doc, "ol", items));
+    el.appendChild(sources);
+  }
+  return el;
+}
+
+/**
+ * Fills `doc` with a print-friendly transcript. Built node by node rather than
+ * from an HTML string so it also works on pages enforcing Trusted Types.
+ */
+export function renderTranscript(doc: Document, messages: ChatMessage[], meta: TranscriptMeta, labels: TranscriptLabels) {
+  if (meta.locale) doc.documentElement.lang = meta.locale;
+  doc.title = labels.transcriptTitle;
+  // a constructed sheet isn't subject to the page's style-src, unlike a <style> element
+  const view = doc.defaultView;
+  if (view && "adoptedStyleSheets" in doc) {
+    const sheet = new view.CSSStyleSheet();
+    sheet.replaceSync(PRINT_CSS);
+    doc.adoptedStyleSheets = [sheet];
+  } else {
+    doc.head.appendChild(element(doc, "style", undefined, PRINT_CSS));
+  }
+
+  doc.body.append(
+    element(doc, "h1", undefined, labels.transcriptTitle),
+    element(doc, "div", "meta", `${meta.configCode} · ${formatTime(meta.exportedAt, meta.locale)}`),
+    ...messages.map((m) => messageElement(doc, m, meta, labels))
+  );
+}
+
+/** e.g. `chat-CZ_ACCOUNTING-2024-05-01.md` */
+export function transcriptFileName(meta: TranscriptMeta, extension: string) {
+  const date = new Date(meta.exportedAt).toISOString().slice(0, 10);
+  return `chat-${meta.configCode || "DEFAULT"}-${date}.${extension}`;
+}
+
+export function downloadFile(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.style.display = "none";
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Prints a document filled in by `render` from a hidden iframe, so no popup window is needed */
+export function printDocument(render: (doc: Document) => void) {
+  const frame = document.createElement("iframe");
+  frame.setAttribute("aria-hidden", "true");
+  Object.assign(frame.style, { position: "fixed", width: "0", height: "0", border: "0", visibility: "hidden" });
+  // without a src the frame holds an empty same-origin document right after it is attached
+  document.body.appendChild(frame);
+  const win = frame.contentWindow;
+  if (!win) {
+    frame.remove();
+    return;
+  }
+  render(win.document);
+  win.addEventListener("afterprint", () => frame.remove(), { once: true });
+  win.focus();
+  win.print();
+}
@@ -1 +1,63 @@
-export type ChatMessage = { role: "user" | "ai"; text: string };
+import type { ChatAttachment, ChatBlock, ChatSource } from "./api/ChatClient";
+
+export type ChatMessage = {
+  role: "user" | "ai" | "agent";
+  text: string;
+  /** files sent along with a user message */
+  attachments?: ChatAttachment[];
+  /** highlighted page text a user message asked about */
+  quote?: string;
+  intro?: boolean;
+  /** epoch millis the message was added */
+  sentAt?: number;
+  /** server id of an AI reply, needed for feedback */
+  id?: string;
+  /** display name of the live agent who wrote an "agent" message */
+  agentName?: string;
+  /** the visitor's rating of an AI reply */
+  feedback?: { rating: "up" | "down"; comment?: string };
+  /** cards, buttons and forms shown under an AI reply */
+  blocks?: ChatBlock[];
+  /** documents an AI reply cites with `[n]` markers */
+  sources?: ChatSource[];
+  /** values of the reply's forms that were already sent, by form id */
+  submitted?: Record<string, Record<string, string>>;
+};
+
+/** Payloads passed to the widget event callbacks and carried as `CustomEvent.detail` */
+export type ChatEventDetails = {
+  open: { configCode: string };
+  close: { configCode: string };
+  messageSent: { configCode: string; text: string; scopeId?: string };
+  reply: { configCode: string; reply: string; scopeId: string; followups: string[] };
+  followupClick: { configCode: string; text: string };
+  /**
+   * the widget CSS didn't apply: the `cssUrl` file failed to load (404, blocked by CSP…) or,
+   * without `cssUrl`, the CSP blocked the bundled `<style>` element (`url` is then absent)
+   */
+  cssError: { configCode: string; url?: string };
+  /** a reply button with an `action` was clicked */
+  action: { configCode: string; action: string; payload?: Record<string, unknown>; messageId?: string };
+  error: {
+    configCode: string;
+    message: string;
+    status?: number;
+    /** raw response body of a failed request; `message` is the localized text shown in the widget */
+    body?: string;
+    rateLimited: boolean;
+    /** milliseconds until the rate limit lifts, when the server sent Retry-After */
+    retryAfterMs?: number;
+    error: unknown;
+  };
+};
+
+export type ChatEventHandlers = {
+  onOpen?: (detail: ChatEventDetails["open"]) => void;
+  onClose?: (detail: ChatEventDetails["close"]) => void;
+  onMessageSent?: (detail: ChatEventDetails["messageSent"]) => void;
+  onReply?: (detail: ChatEventDetails["reply"]) => void;
+  onFollowupClick?: (detail: ChatEventDetails["followupClick"]) => void;
+  onAction?: (detail: ChatEventDetails["action"]) => void;
+  onError?: (detail: ChatEventDetails["error"]) => void;
+  onCssError?: (detail: ChatEventDetails["cssError"]) => void;
+};
@@ -4,8 +4,29 @@ module.exports = {
     './index.html',
     './src/**/*.{js,ts,jsx,tsx,html}'
   ],
+  // the widget toggles `dark` itself so themes can force light/dark regardless of the OS setting
+  darkMode: 'selector',
+  // the stock reset targets html, body, button… of the whole page; src/index.css
+  // carries a copy scoped to the widget instead
+  corePlugins: {
+    preflight: false,
+  },
   theme: {
-    extend: {},
+    extend: {
+      // theme values come from CSS custom properties set by src/theme/theme.ts
+      colors: {
+        velior: {
+          primary: 'var(--velior-primary, #2563eb)',
+          'primary-text': 'var(--velior-primary-text, #ffffff)',
+        },
+      },
+      fontFamily: {
+        velior: 'var(--velior-font, system-ui, Avenir, Helvetica, Arial, sans-serif)',
+      },
+      borderRadius: {
+        velior: 'var(--velior-radius, 16px)',
+      },
+    },
   },
-  plugins: [],
+  plugins: [require('@tailwindcss/typography')],
 }
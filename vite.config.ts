@@ -1,32 +1,61 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  build: {
-    lib: {
-      entry: 'src/entry-cdn.tsx',
-      name: 'VeliorAiChat',
-      fileName: 'velior-ai-chat',
-      formats: ['iife'],
-    },
-    // ensure CSS is output and has a predictable filename so embed examples can load it
-    cssCodeSplit: true,
-    rollupOptions: {
-      // do not externalize react so the IIFE bundle is standalone for CDN usage
-      output: {
-        assetFileNames: (assetInfo) => {
-          if (assetInfo.name && assetInfo.name.endsWith('.css')) {
-            return 'velior-ai-chat.css';
+// `vite build` makes the standalone CDN bundle; `vite build --mode lib` makes
+// the npm ESM build, which leaves React and the other dependencies to the app's bundler.
+export default defineConfig(({ mode }) => {
+  if (mode === 'lib') {
+    return {
+      plugins: [react()],
+      // public/ is for the demo page only
+      publicDir: false,
+      build: {
+        outDir: 'dist/lib',
+        lib: {
+          entry: 'src/index.ts',
+          formats: ['es'],
+          fileName: 'velior-ai-chat',
+          cssFileName: 'style',
+        },
+        rollupOptions: {
+          external: [/^react(-dom)?($|\/)/, 'marked', 'dompurify'],
+        },
+      },
+    }
+  }
+
+  return {
+    plugins: [react()],
+    build: {
+      lib: {
+        entry: 'src/entry-cdn.tsx',
+        name: 'VeliorAiChat',
+        fileName: 'velior-ai-chat',
+        formats: ['iife'],
+      },
+      // emit the CSS as one file with a predictable name so strict-CSP pages can load it via `cssUrl`
+      // (code-split CSS would be injected by the bundle at runtime instead)
+      cssCodeSplit: false,
+      rollupOptions: {
+        // do not externalize react so the IIFE bundle is standalone for CDN usage
+        output: {
+          assetFileNames: (assetInfo) => {
+            if (assetInfo.name && assetInfo.name.endsWith('.css')) {
+              return 'velior-ai-chat.css';
+            }
+            return 'assets/[name]-[hash][extname]';
           }
-          return 'assets/[name]-[hash][extname]';
         }
-      }
+      },
+    },
+    test: {
+      environment: 'jsdom',
     },
+    // Replace common `process.env.NODE_ENV` uses so the IIFE bundle doesn't reference `process` at runtime
+    define: {
+      'process.env.NODE_ENV': JSON.stringify(process.env.NODE_ENV || 'production'),
     },
-  // Replace common `process.env.NODE_ENV` uses so the IIFE bundle doesn't reference `process` at runtime
-  define: {
-    'process.env.NODE_ENV': JSON.stringify(process.env.NODE_ENV || 'production'),
-  },
+  }
 })